@@ -1,10 +1,27 @@
-import { sh, ShellOptions, type ShellResult, ShellResultBinary, shOpt, type TagFunction } from "./mod.ts";
+import {
+  dialectForShell,
+  type DryRunOptions,
+  getDryRun,
+  makeTagFunction,
+  raw,
+  redactSecrets,
+  setDryRun,
+  ShellOptions,
+  type ShellResult,
+  ShellResultBinary,
+  shOpt,
+  type TagFunction,
+  terminateRunningProcesses,
+} from "./mod.ts";
 import { type FormatOptions, formatShellResult } from "./print.ts";
-import { green, red, yellow } from "@std/fmt/colors";
+import { cyan, green, red, yellow } from "@std/fmt/colors";
+import { ansi } from "@cliffy/ansi";
+import { AsyncLocalStorage } from "node:async_hooks";
+import { isInterrupted, onInterrupt } from "./interrupt.ts";
+import { emitShellEvent, hasShellEventListeners } from "./events.ts";
 
 const timeoutSymbol = Symbol("timeout");
 type TimeoutSymbol = typeof timeoutSymbol;
-const thru = (v: string) => v;
 
 /**
  * Configuration options for controlling action execution behavior.
@@ -34,6 +51,72 @@ export interface Config {
    * Default: `{ successPrefix: "", errorPrefix: "" }`
    */
   formatOptions?: FormatOptions;
+  /**
+   * Retry policy of the action: a failed action function is called again, the action line shows the attempt number.
+   * Timeout applies to all the attempts together.
+   *
+   * Default: `undefined` (no retries)
+   */
+  retry?: RetryPolicy;
+  /**
+   * Dry run mode of the commands executed by `shAction` and `shActionOpt` within the action and its nested actions:
+   * the commands are printed and recorded instead of being executed, see `dryRun` in `ShellOptions`. Set it in
+   * `defaultConfig` to switch the whole program to dry run mode, `sh`, `run` and the rest of ./mod.ts included (it's
+   * the same switch as `setDryRun`). `dryRun` passed to `shActionOpt` takes precedence.
+   *
+   * Default: `false`
+   */
+  dryRun?: boolean | DryRunOptions;
+}
+
+/**
+ * Retry policy, see `Config.retry` and `ShellActionOptions.retry`. The delay before attempt `n + 1` is
+ * `initialDelayMs * factor ** (n - 1)`, capped by `maxDelayMs` and randomized by `jitter`.
+ */
+export interface RetryPolicy {
+  /**
+   * Maximum number of attempts, including the first one.
+   *
+   * Default: `3`
+   */
+  attempts?: number;
+  /**
+   * Delay before the first retry in milliseconds.
+   *
+   * Default: `1000`
+   */
+  initialDelayMs?: number;
+  /**
+   * Multiplier of the delay after each retry.
+   *
+   * Default: `2`
+   */
+  factor?: number;
+  /**
+   * Maximum delay between attempts in milliseconds.
+   *
+   * Default: `30000`
+   */
+  maxDelayMs?: number;
+  /**
+   * Relative random deviation of the delay, e.g. `0.2` means ±20%. Spreads the retries of parallel actions.
+   *
+   * Default: `0.2`
+   */
+  jitter?: number;
+  /**
+   * Total time budget in milliseconds, counted from the first attempt. No retry is started if it would begin after
+   * the deadline.
+   *
+   * Default: `undefined` (no deadline)
+   */
+  deadlineMs?: number;
+  /**
+   * Decides whether a failed attempt should be retried, see `retryOnShellError` for the common case.
+   *
+   * Default: retry any error except `SkipError`, `TimeoutError` and `InterruptedError`
+   */
+  retryOn?: (err: unknown) => boolean;
 }
 
 /**
@@ -44,6 +127,12 @@ export const defaultConfig: Config = {
   verbosity: "verbose" as "verbose" | "quiet",
   colors: true,
   formatOptions: { successPrefix: "", errorPrefix: "" },
+  get dryRun() {
+    return getDryRun();
+  },
+  set dryRun(dryRun) {
+    setDryRun(dryRun);
+  },
 };
 
 /**
@@ -52,9 +141,13 @@ export const defaultConfig: Config = {
  */
 export class ShellError extends Error {
   result: ShellResult | ShellResultBinary;
+  /** Results of all the attempts when the command was retried (see `RetryPolicy`), the last one is `result`. */
+  attempts: Array<ShellResult | ShellResultBinary>;
   constructor(result: ShellResult | ShellResultBinary) {
-    super(`${result.cmd} exited with code ${result.code}`);
+    const status = result.signal ? `was killed by ${result.signal}` : `exited with code ${result.code}`;
+    super(`${redactSecrets(result.cmd)} ${status}${result.timedOut ? " (timeout)" : ""}`);
     this.result = result;
+    this.attempts = [result];
     this.name = this.constructor.name;
     this.stack = new Error().stack;
   }
@@ -97,6 +190,18 @@ export class SkipError extends Error {
   }
 }
 
+/**
+ * Custom error class for actions that are skipped because their results are up to date, see `incremental`.
+ */
+export class UpToDateError extends SkipError {
+  constructor() {
+    super();
+    this.message = "action is up to date";
+    this.name = this.constructor.name;
+    this.stack = new Error().stack;
+  }
+}
+
 /**
  * Custom error class for actions that are timed out.
  */
@@ -109,14 +214,104 @@ export class TimeoutError extends Error {
 }
 
 /**
- * Shell tag function wrapper that throws `ShellError` on non-zero exit codes.
+ * Custom error class for actions that are interrupted with Ctrl-C, see ./interrupt.ts.
  */
-export const shAction: TagFunction<ShellResult> = sh.map((result) => {
-  if (result.code !== 0) {
-    throw new ShellError(result);
+export class InterruptedError extends Error {
+  constructor() {
+    super("action was interrupted");
+    this.name = this.constructor.name;
+    this.stack = new Error().stack;
   }
-  return result;
-});
+}
+
+/**
+ * Produce a `RetryPolicy.retryOn` predicate matching failed shell commands (`ShellError`) by exit code and/or stderr.
+ * Both conditions have to match when both are given, other errors are not retried. E.g.
+ * ```
+ * const retry = { attempts: 5, retryOn: retryOnShellError({ codes: [100], stderr: /Could not resolve/ }) };
+ * await action("Install packages", () => shActionOpt({ retry })`apt-get install -y ${pkgs}`);
+ * ```
+ */
+export function retryOnShellError(match: { codes?: number[]; stderr?: RegExp }): (err: unknown) => boolean {
+  return (err) => {
+    if (!(err instanceof ShellError)) return false;
+    const { code, stderr } = err.result;
+    if (match.codes && !match.codes.includes(code)) return false;
+    if (match.stderr) {
+      const text = typeof stderr === "string" ? stderr : new TextDecoder().decode(stderr);
+      if (!match.stderr.test(text)) return false;
+    }
+    return true;
+  };
+}
+
+function defaultRetryOn(err: unknown): boolean {
+  return !(err instanceof SkipError) && !(err instanceof TimeoutError) && !(err instanceof InterruptedError);
+}
+
+function retryDelay(policy: RetryPolicy, attempt: number): number {
+  const base = Math.min(
+    policy.maxDelayMs ?? 30000,
+    (policy.initialDelayMs ?? 1000) * (policy.factor ?? 2) ** (attempt - 1),
+  );
+  const jitter = policy.jitter ?? 0.2;
+  return Math.max(0, base * (1 + jitter * (2 * Math.random() - 1)));
+}
+
+function sleep(ms: number, asig?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(id);
+      asig?.removeEventListener("abort", done);
+      resolve();
+    };
+    const id = setTimeout(done, ms);
+    asig?.addEventListener("abort", done);
+  });
+}
+
+// Call f until it succeeds or the policy gives up. Results of failed shell commands are collected in the `attempts`
+// of the final `ShellError`.
+async function withRetry<T>(
+  policy: RetryPolicy | undefined,
+  f: () => Promise<T>,
+  onRetry?: (attempt: number, attempts: number) => void,
+  asig?: AbortSignal,
+): Promise<T> {
+  const attempts = policy ? policy.attempts ?? 3 : 1;
+  const deadline = Date.now() + (policy?.deadlineMs ?? Infinity);
+  const results: Array<ShellResult | ShellResultBinary> = [];
+  for (let attempt = 1;; attempt++) {
+    try {
+      return await f();
+    } catch (err) {
+      if (err instanceof ShellError) {
+        results.push(...err.attempts);
+        err.attempts = [...results];
+      }
+      if (!policy || attempt >= attempts || asig?.aborted || !(policy.retryOn ?? defaultRetryOn)(err)) throw err;
+      const delay = retryDelay(policy, attempt);
+      if (Date.now() + delay > deadline) throw err;
+      await sleep(delay, asig);
+      if (asig?.aborted) throw err;
+      onRetry?.(attempt + 1, attempts);
+    }
+  }
+}
+
+/**
+ * Options of `shActionOpt`.
+ */
+export interface ShellActionOptions extends ShellOptions {
+  /**
+   * Retry policy of the command: the command is executed again while it fails with `ShellError` and the policy
+   * allows it. The final `ShellError` keeps the results of all the attempts. Retries are shown on the line of the
+   * action running the command.
+   *
+   * Default: `undefined` (no retries)
+   */
+  retry?: RetryPolicy;
+}
 
 /**
  * Produce a shell executing tag function.
@@ -125,7 +320,7 @@ export const shAction: TagFunction<ShellResult> = sh.map((result) => {
  *
  * The output is decoded as utf-8 and returned as a string.
  */
-export function shActionOpt(opt: ShellOptions, output?: "utf-8"): TagFunction<ShellResult>;
+export function shActionOpt(opt: ShellActionOptions, output?: "utf-8"): TagFunction<ShellResult>;
 /**
  * Produce a shell executing tag function.
  *
@@ -133,7 +328,7 @@ export function shActionOpt(opt: ShellOptions, output?: "utf-8"): TagFunction<Sh
  *
  * The output is returned as is.
  */
-export function shActionOpt(opt: ShellOptions, output: "binary"): TagFunction<ShellResultBinary>;
+export function shActionOpt(opt: ShellActionOptions, output: "binary"): TagFunction<ShellResultBinary>;
 /**
  * Produce a shell executing tag function.
  *
@@ -142,20 +337,273 @@ export function shActionOpt(opt: ShellOptions, output: "binary"): TagFunction<Sh
  * This is the overloaded implementaion exported as is for reuse.
  */
 export function shActionOpt(
-  opt: ShellOptions,
+  opt: ShellActionOptions,
   output?: "binary" | "utf-8",
 ): TagFunction<ShellResult | ShellResultBinary>;
 export function shActionOpt(
-  opt: ShellOptions,
+  opt: ShellActionOptions,
   output?: "binary" | "utf-8",
 ): TagFunction<ShellResult | ShellResultBinary> {
-  return shOpt(opt, output).map((result) => {
-    if (result.code !== 0) {
-      throw new ShellError(result);
-    }
-    return result;
+  // the command is quoted once, dry run mode is resolved and each attempt executes it as is
+  return makeTagFunction((cmd) => {
+    const node = currentAction();
+    const dryRun = opt.dryRun ?? actionContext.getStore()?.dryRun ?? defaultConfig?.dryRun;
+    const f = shOpt({ ...opt, dryRun: dryRun && dryRunOptions(dryRun, node) }, output).map((result) => {
+      if (result.code !== 0) {
+        throw new ShellError(result);
+      }
+      return result;
+    });
+    return withRetry(opt.retry, () => f`${raw(cmd)}`, (attempt, attempts) => showRetry(node, attempt, attempts));
+  }, opt.dialect ?? dialectForShell(opt.shell ?? "/bin/bash"));
+}
+
+/**
+ * Shell tag function wrapper that throws `ShellError` on non-zero exit codes.
+ */
+export const shAction: TagFunction<ShellResult> = shActionOpt({});
+
+/**
+ * Final status of an action, `"RUNNING"` while it's in progress.
+ */
+export type ActionStatus = "RUNNING" | "OK" | "ERROR" | "SKIPPED" | "UP-TO-DATE" | "TIMEOUT" | "INTERRUPTED";
+
+/**
+ * An action in the tree of executed actions, see `actionTree`.
+ */
+export interface ActionNode {
+  readonly label: string;
+  readonly parent: ActionNode | undefined;
+  readonly children: ActionNode[];
+  readonly startedAt: Date;
+  status: ActionStatus;
+  /** Number of times the action function was called, more than one when it was retried (see `Config.retry`). */
+  attempts: number;
+  /** Set when the action is finished. */
+  elapsedMilliseconds?: number;
+  /** The error the action failed with. */
+  error?: unknown;
+}
+
+interface ActionState {
+  node: ActionNode;
+  colors: boolean;
+  // rendered in the live region, see `parallel`
+  live: boolean;
+  // attempt number shown while the action is retried, e.g. "retry 2/5"
+  note?: string;
+}
+
+interface RunningAction {
+  node: ActionNode;
+  state: ActionState;
+  ac: AbortController;
+}
+
+interface ActionContext {
+  live: boolean;
+  parent?: ActionNode;
+  dryRun?: boolean | DryRunOptions;
+}
+
+const actionContext = new AsyncLocalStorage<ActionContext>();
+const rootActions: ActionNode[] = [];
+const printedErrors = new WeakSet<ShellError>();
+// states of the displayed actions, for showing retries of the commands they run
+const displayedActions = new WeakMap<ActionNode, ActionState>();
+const runningActions = new Set<RunningAction>();
+// identifiers of the actions in events, see ./events.ts
+const actionIds = new WeakMap<ActionNode, number>();
+let lastActionId = 0;
+let stopInterruptHandling: (() => void) | undefined;
+const spinnerFrames = ["|", "/", "-", "\\"];
+
+function elapsedText(node: ActionNode): string {
+  const ms = node.elapsedMilliseconds ?? Date.now() - node.startedAt.getTime();
+  return `[${(ms / 1000).toFixed(1)}s]`;
+}
+
+function statusColor(status: ActionStatus): (v: string) => string {
+  switch (status) {
+    case "OK":
+      return green;
+    case "UP-TO-DATE":
+      return cyan;
+    case "SKIPPED":
+    case "RUNNING":
+      return yellow;
+    default:
+      return red;
+  }
+}
+
+function statusText(state: ActionState): string {
+  const status = state.node.status;
+  return `${state.colors ? statusColor(status)(status) : status} ${elapsedText(state.node)}`;
+}
+
+function labelPath(node: ActionNode): string[] {
+  return node.parent ? [...labelPath(node.parent), node.label] : [node.label];
+}
+
+function emitActionEnd(node: ActionNode) {
+  const id = actionIds.get(node);
+  if (id === undefined || !hasShellEventListeners()) return;
+  const err = node.error;
+  emitShellEvent({
+    type: "actionEnd",
+    time: new Date(),
+    id,
+    path: labelPath(node),
+    status: node.status,
+    elapsedMilliseconds: node.elapsedMilliseconds ?? 0,
+    ...(err !== undefined ? { error: err instanceof Error ? err.message : String(err) } : {}),
   });
 }
+
+function depth(node: ActionNode): number {
+  return node.parent ? depth(node.parent) + 1 : 0;
+}
+
+function indent(node: ActionNode): string {
+  return "  ".repeat(depth(node));
+}
+
+function within(node: ActionNode | undefined, ancestor: ActionNode | undefined): boolean {
+  if (!ancestor) return true;
+  return node !== undefined && (node === ancestor || within(node.parent, ancestor));
+}
+
+// Terminal output of actions. Sequential actions print `label...` and then the status on the same line, nested
+// actions are indented under their parent. Actions running in parallel are shown in the live region at the bottom of
+// the terminal, one per line, and print their final line above it when they finish. Without a terminal there is no
+// live region, only the final lines are printed.
+function makeDisplay() {
+  const te = new TextEncoder();
+  const write = (s: string) => Deno.stdout.writeSync(te.encode(s));
+  let openLine: ActionState | undefined;
+  const live: ActionState[] = [];
+  let liveLines = 0;
+  let frame = 0;
+  let timer: number | undefined;
+
+  const isTerminal = () => Deno.stdout.isTerminal();
+  const clearLive = () => {
+    if (liveLines === 0) return;
+    write(ansi.cursorUp(liveLines).cursorLeft.eraseDown.toString());
+    liveLines = 0;
+  };
+  const drawLive = () => {
+    if (live.length === 0 || !isTerminal()) return;
+    const columns = Deno.consoleSize().columns;
+    for (const state of live) {
+      const note = state.note ? ` (${state.note})` : "";
+      const line = `${indent(state.node)}${spinnerFrames[frame]} ${state.node.label} ${elapsedText(state.node)}${note}`;
+      // long lines would wrap and break the cursor movement
+      write((columns > 1 ? line.substring(0, columns - 1) : line) + "\n");
+    }
+    liveLines = live.length;
+  };
+  const closeOpenLine = () => {
+    if (!openLine) return;
+    write("\n");
+    openLine = undefined;
+  };
+  // write to the terminal above the live region
+  const print = (text: string) => {
+    clearLive();
+    closeOpenLine();
+    write(text);
+    drawLive();
+  };
+  const tick = () => {
+    frame = (frame + 1) % spinnerFrames.length;
+    clearLive();
+    drawLive();
+  };
+  const finalLine = (state: ActionState) =>
+    `${indent(state.node)}${state.node.label}... ${state.note ? `${state.note} ` : ""}${statusText(state)}\n`;
+
+  return {
+    start(state: ActionState) {
+      if (!state.live) {
+        print(`${indent(state.node)}${state.node.label}...`);
+        openLine = state;
+        return;
+      }
+      // keep the tree order, after the siblings and their children
+      const i = live.findLastIndex((s) => within(s.node, state.node.parent));
+      live.splice(i + 1, 0, state);
+      if (!isTerminal()) return;
+      print("");
+      timer ??= setInterval(tick, 80);
+    },
+    end(state: ActionState) {
+      if (!state.live) {
+        if (openLine === state) {
+          openLine = undefined;
+          write(` ${statusText(state)}\n`);
+        } else {
+          print(finalLine(state));
+        }
+        return;
+      }
+      live.splice(live.indexOf(state), 1);
+      if (live.length === 0) {
+        clearInterval(timer);
+        timer = undefined;
+      }
+      print(finalLine(state));
+    },
+    retry(state: ActionState, note: string) {
+      state.note = note;
+      // live actions show the note in the live region
+      if (state.live) return;
+      if (openLine === state) {
+        write(` ${note}...`);
+      } else {
+        print(`${indent(state.node)}${state.node.label}... ${note}...`);
+        openLine = state;
+      }
+    },
+    print,
+  };
+}
+
+const display = makeDisplay();
+
+// Ctrl-C handler, see ./interrupt.ts
+function interruptActions(): Promise<void> {
+  for (const { node, state, ac } of [...runningActions].reverse()) {
+    ac.abort("interrupted");
+    node.status = "INTERRUPTED";
+    node.elapsedMilliseconds = Date.now() - node.startedAt.getTime();
+    if (displayedActions.has(node)) display.end(state);
+    emitActionEnd(node);
+  }
+  if ((defaultConfig?.verbosity ?? "verbose") === "verbose") {
+    display.print("\n" + formatActionSummary() + "\n");
+  }
+  return terminateRunningProcesses();
+}
+
+// dry run commands are printed under the action running them
+function dryRunOptions(dryRun: true | DryRunOptions, node: ActionNode | undefined): DryRunOptions {
+  const dr = dryRun === true ? {} : dryRun;
+  const state = node && displayedActions.get(node);
+  if (!state || dr.print === false || typeof dr.print === "function") return dr;
+  return {
+    ...dr,
+    colors: dr.colors ?? state.colors,
+    print: (line) => display.print(`${indent(node)}  ${line}\n`),
+  };
+}
+
+function showRetry(node: ActionNode | undefined, attempt: number, attempts: number) {
+  const state = node && displayedActions.get(node);
+  if (state) display.retry(state, `retry ${attempt}/${attempts}`);
+}
+
 /**
  * A function that lets you group long-running actions into meaningful steps with nice logging.
  *
@@ -164,51 +612,278 @@ export function shActionOpt(
  * - Configurable timeouts prevent actions from running indefinitely. Set timeouts via the `config` parameter
  *   or globally in `defaultConfig`.
  * - Throw a `SkipError` to log the action as skipped without re-throwing the exception.
+ * - Failed actions can be retried with a backoff, see `Config.retry`.
+ * - Ctrl-C aborts the running actions (see `asig`), terminates their commands and marks them as interrupted, see
+ *   ./interrupt.ts.
+ * - Wrap the function with `incremental` (see ./incremental.ts) to skip the action when its inputs are unchanged.
+ *
+ * Actions can be nested, an action started inside another one becomes its child and is rendered indented under it.
+ * All executed actions are recorded, see `actionTree` and `printActionSummary`. Use `parallel` to run multiple
+ * actions at the same time.
  */
 export async function action<T>(label: string, f: (asig: AbortSignal) => Promise<T> | T, config?: Config): Promise<T> {
-  const v = config?.verbosity ?? defaultConfig?.verbosity ?? "verbose";
-  const te = new TextEncoder();
-  if (v) Deno.stdout.writeSync(te.encode(`${label}... `));
+  if (isInterrupted()) throw new InterruptedError();
+  const v = (config?.verbosity ?? defaultConfig?.verbosity ?? "verbose") === "verbose";
+  const ctx = actionContext.getStore();
+  const node: ActionNode = {
+    label,
+    parent: ctx?.parent,
+    children: [],
+    startedAt: new Date(),
+    status: "RUNNING",
+    attempts: 1,
+  };
+  (ctx?.parent?.children ?? rootActions).push(node);
+  actionIds.set(node, ++lastActionId);
+  if (hasShellEventListeners()) {
+    emitShellEvent({ type: "actionStart", time: new Date(), id: lastActionId, path: labelPath(node) });
+  }
+  const state: ActionState = {
+    node,
+    colors: config?.colors ?? defaultConfig?.colors ?? true,
+    live: ctx?.live ?? false,
+  };
+  const finish = (status: ActionStatus, err?: unknown) => {
+    // already finished by the Ctrl-C handler
+    if (node.status !== "RUNNING") return;
+    node.status = status;
+    node.elapsedMilliseconds = Date.now() - node.startedAt.getTime();
+    node.error = err;
+    if (v) display.end(state);
+    emitActionEnd(node);
+  };
+  if (v) {
+    displayedActions.set(node, state);
+    display.start(state);
+  }
   const tc: TimeoutCookie = { timeoutId: undefined };
-  const t0 = Date.now();
+  const ac = new AbortController();
+  const running: RunningAction = { node, state, ac };
+  runningActions.add(running);
+  stopInterruptHandling ??= onInterrupt(interruptActions);
   try {
-    const ac = new AbortController();
     const timeoutSeconds = config?.timeoutSeconds ?? defaultConfig?.timeoutSeconds ?? 120;
-    const result = await timeoutPromise(tc, f(ac.signal), timeoutSeconds);
+    const retry = config?.retry ?? defaultConfig?.retry;
+    const onRetry = (attempt: number, attempts: number) => {
+      node.attempts = attempt;
+      // nested actions of the failed attempt don't count towards the status of the retried one
+      node.children.length = 0;
+      showRetry(node, attempt, attempts);
+    };
+    const run = actionContext.run(
+      { live: state.live, parent: node, dryRun: config?.dryRun ?? ctx?.dryRun },
+      () => withRetry(retry, async () => await f(ac.signal), onRetry, ac.signal),
+    );
+    const result = await timeoutPromise(tc, run, timeoutSeconds);
     if (result === timeoutSymbol) {
       ac.abort("timeout");
       throw new TimeoutError();
     } else {
-      if (v) {
-        const elapsed = (Date.now() - t0) / 1000;
-        const cgreen = config?.colors ?? defaultConfig?.colors ?? true ? green : thru;
-        Deno.stdout.writeSync(te.encode(`${cgreen("OK")} [${elapsed.toFixed(1)}s]\n`));
-      }
+      finish("OK");
       return result;
     }
   } catch (err) {
+    if (node.status === "INTERRUPTED") throw new InterruptedError();
     if (err instanceof SkipError) {
-      if (v) {
-        const elapsed = (Date.now() - t0) / 1000;
-        const cyellow = config?.colors ?? defaultConfig?.colors ?? true ? yellow : thru;
-        Deno.stdout.writeSync(te.encode(`${cyellow("SKIPPED")} [${elapsed.toFixed(1)}s]\n`));
-      }
+      finish(err instanceof UpToDateError ? "UP-TO-DATE" : "SKIPPED");
       return undefined as T;
     }
-    if (v) {
-      const elapsed = (Date.now() - t0) / 1000;
-      const errLabel = err instanceof TimeoutError ? "TIMEOUT" : "ERROR";
-      const cred = config?.colors ?? defaultConfig?.colors ?? true ? red : thru;
-      Deno.stdout.writeSync(te.encode(`${cred(errLabel)} [${elapsed.toFixed(1)}s]\n`));
-    }
-    if (err instanceof ShellError) {
+    finish(err instanceof TimeoutError ? "TIMEOUT" : "ERROR", err);
+    // parent actions see the same error, print it only once
+    if (err instanceof ShellError && !printedErrors.has(err)) {
+      printedErrors.add(err);
       if (v) {
         const fmtOpts = config?.formatOptions ?? defaultConfig?.formatOptions;
-        Deno.stdout.writeSync(te.encode(formatShellResult(err.result, fmtOpts) + "\n"));
+        display.print(formatShellResult(err.result, fmtOpts).replace(/^/gm, indent(node)) + "\n");
       }
     }
     throw err;
   } finally {
     clearTimeoutCookie(tc);
+    runningActions.delete(running);
+    if (runningActions.size === 0) {
+      stopInterruptHandling?.();
+      stopInterruptHandling = undefined;
+    }
   }
 }
+
+/**
+ * The action the caller runs in, `undefined` outside of actions.
+ */
+export function currentAction(): ActionNode | undefined {
+  return actionContext.getStore()?.parent;
+}
+
+/**
+ * Top-level actions executed so far, in order of start. Nested actions are available via `children`.
+ */
+export function actionTree(): readonly ActionNode[] {
+  return rootActions;
+}
+
+const statusSeverity: Record<ActionStatus, number> = {
+  "SKIPPED": 0,
+  "UP-TO-DATE": 0,
+  "OK": 1,
+  "RUNNING": 2,
+  "ERROR": 3,
+  "TIMEOUT": 4,
+  "INTERRUPTED": 5,
+};
+
+/**
+ * Status of an action combined with the statuses of its children: an action which succeeded itself, but has failed
+ * children (e.g. it caught their errors), is considered failed.
+ */
+export function rollupStatus(node: ActionNode): ActionStatus {
+  if (node.status !== "OK") return node.status;
+  let status: ActionStatus = "OK";
+  for (const child of node.children) {
+    const s = rollupStatus(child);
+    if (statusSeverity[s] > statusSeverity[status]) status = s === "TIMEOUT" ? "ERROR" : s;
+  }
+  return status;
+}
+
+/**
+ * Short human readable reason of an action failure, `undefined` if the action didn't fail.
+ */
+export function failureReason(node: ActionNode): string | undefined {
+  if (node.status === "OK") {
+    const failed = node.children.filter((c) => rollupStatus(c) === "ERROR" || rollupStatus(c) === "TIMEOUT");
+    return failed.length ? `failed: ${failed.map((c) => c.label).join(", ")}` : undefined;
+  }
+  if (node.status !== "ERROR" && node.status !== "TIMEOUT") return undefined;
+  const err = node.error;
+  const reason = err instanceof Error ? err.message : String(err);
+  return node.attempts > 1 ? `${reason} (after ${node.attempts} attempts)` : reason;
+}
+
+/**
+ * Summary formatting options.
+ */
+export interface SummaryOptions {
+  /**
+   * Whether to use ANSI colors for output.
+   *
+   * Default: `defaultConfig.colors`
+   */
+  colors?: boolean;
+}
+
+const statusIcons: Record<ActionStatus, string> = {
+  "RUNNING": "…",
+  "OK": "✔",
+  "ERROR": "✘",
+  "SKIPPED": "↷",
+  "UP-TO-DATE": "≡",
+  "TIMEOUT": "✘",
+  "INTERRUPTED": "✘",
+};
+
+/**
+ * Format the tree of executed actions with their durations, statuses and failure reasons. E.g.
+ * ```
+ * ✔ Provision OK [12.3s]
+ * ├─ ✔ Install packages OK [10.0s]
+ * ├─ ↷ Restore backup SKIPPED [0.0s]
+ * └─ ✘ Configure ERROR [0.1s]: ./configure exited with code 1
+ * ```
+ */
+export function formatActionSummary(nodes: readonly ActionNode[] = actionTree(), opts?: SummaryOptions): string {
+  const col = opts?.colors ?? defaultConfig?.colors ?? true;
+  const lines: string[] = [];
+  const walk = (nodes: readonly ActionNode[], prefix: string, nested: boolean) => {
+    nodes.forEach((node, i) => {
+      const last = i === nodes.length - 1;
+      const status = rollupStatus(node);
+      const color = col ? statusColor(status) : (v: string) => v;
+      const reason = failureReason(node);
+      const branch = nested ? (last ? "└─ " : "├─ ") : "";
+      lines.push(
+        `${prefix}${branch}${color(`${statusIcons[status]} ${node.label} ${status}`)} ${elapsedText(node)}` +
+          (reason ? `: ${reason.split("\n")[0]}` : ""),
+      );
+      walk(node.children, nested ? prefix + (last ? "   " : "│  ") : prefix, true);
+    });
+  };
+  walk(nodes, "", false);
+  return lines.join("\n");
+}
+
+/**
+ * A shortcut for `console.log(formatActionSummary(nodes, opts))`.
+ */
+export function printActionSummary(nodes: readonly ActionNode[] = actionTree(), opts?: SummaryOptions) {
+  console.log(formatActionSummary(nodes, opts));
+}
+
+/**
+ * Run a function starting multiple actions at the same time, the actions are rendered in the live region, one per
+ * line (see `parallel`). This is the building block for custom schedulers, `parallel` covers the common case.
+ */
+export async function actionGroup<T>(f: () => Promise<T> | T): Promise<T> {
+  const ctx = actionContext.getStore();
+  return await actionContext.run({ live: true, parent: ctx?.parent, dryRun: ctx?.dryRun }, f);
+}
+
+/**
+ * An action to run via `parallel`, see `action` for details.
+ */
+export interface ParallelAction<T> {
+  label: string;
+  f: (asig: AbortSignal) => Promise<T> | T;
+  config?: Config;
+}
+
+/**
+ * Options for `parallel`.
+ */
+export interface ParallelOptions {
+  /**
+   * Maximum number of actions running at the same time, at least 1.
+   *
+   * Default: `Infinity`
+   */
+  concurrency?: number;
+}
+
+/**
+ * Run multiple actions at the same time, returns their results in order. E.g.
+ * ```
+ * await parallel([
+ *   { label: "Build frontend", f: () => shAction`npm run build` },
+ *   { label: "Build backend", f: () => shAction`go build ./...` },
+ * ], { concurrency: 2 });
+ * ```
+ *
+ * Each running action is shown on its own line with a spinner and elapsed time, finished ones are printed above with
+ * their final status, followed by the failure output if any.
+ *
+ * All the actions run to completion even if some of them fail, after that the error of the first failed action (in
+ * order) is re-thrown.
+ */
+export async function parallel<T>(actions: ParallelAction<T>[], opts?: ParallelOptions): Promise<T[]> {
+  const limit = opts?.concurrency ?? Infinity;
+  // NaN would start no workers at all
+  if (!(limit >= 1)) throw new Error(`invalid concurrency: ${limit}`);
+  const results: T[] = new Array(actions.length);
+  const errors: Array<{ err: unknown } | undefined> = new Array(actions.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < actions.length) {
+      const i = next++;
+      const a = actions[i];
+      try {
+        results[i] = await action(a.label, a.f, a.config);
+      } catch (err) {
+        errors[i] = { err };
+      }
+    }
+  };
+  await actionGroup(() => Promise.all(Array.from({ length: Math.min(limit, actions.length) }, worker)));
+  const failed = errors.find((e) => e !== undefined);
+  if (failed) throw failed.err;
+  return results;
+}
@@ -0,0 +1,257 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import {
+  action,
+  actionTree,
+  defaultConfig,
+  failureReason,
+  formatActionSummary,
+  parallel,
+  retryOnShellError,
+  rollupStatus,
+  shAction,
+  shActionOpt,
+  ShellError,
+  SkipError,
+  UpToDateError,
+} from "./action.ts";
+import { clearDryRunLog, dryRunLog, run, sh, spawn } from "./mod.ts";
+import { runReport } from "./report.ts";
+import { denoScript } from "./test_util.ts";
+
+defaultConfig.verbosity = "quiet";
+
+Deno.test("shActionOpt retry", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const counter = `${dir}/counter`;
+    // fails with code 3 twice, then succeeds
+    const flaky = `n=$(cat ${counter} 2>/dev/null || echo 0); echo $((n + 1)) > ${counter}; [ "$n" -ge 2 ] || exit 3`;
+    const retry = { attempts: 5, initialDelayMs: 1, retryOn: retryOnShellError({ codes: [3] }) };
+    const result = await shActionOpt({ retry })`sh -c ${flaky}`;
+    assertEquals(result.code, 0);
+    assertEquals(await Deno.readTextFile(counter), "3\n");
+
+    await Deno.remove(counter);
+    const err = await assertRejects(
+      () => shActionOpt({ retry: { ...retry, attempts: 2 } })`sh -c ${flaky}`,
+      ShellError,
+    );
+    assert(err instanceof ShellError);
+    assertEquals(err.attempts.map((r) => r.code), [3, 3]);
+    assertEquals(err.result, err.attempts[1]);
+
+    // not matching the predicate, no retries
+    await assertRejects(
+      () => shActionOpt({ retry: { ...retry, retryOn: retryOnShellError({ stderr: /network/ }) } })`exit 3`,
+      ShellError,
+    );
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("action retry", async () => {
+  let calls = 0;
+  const result = await action("flaky", () => {
+    if (++calls < 3) throw new Error("flaky");
+    return calls;
+  }, { retry: { attempts: 3, initialDelayMs: 1 } });
+  assertEquals(result, 3);
+
+  calls = 0;
+  const start = Date.now();
+  await assertRejects(
+    () =>
+      action("deadline", () => {
+        calls++;
+        throw new Error("down");
+      }, { retry: { attempts: 10, initialDelayMs: 20, factor: 1, jitter: 0, deadlineMs: 50 } }),
+    Error,
+    "down",
+  );
+  assert(calls >= 2 && calls <= 4, `calls: ${calls}`);
+  assert(Date.now() - start < 1000);
+
+  calls = 0;
+  await action("deploy", () =>
+    action("push", () => {
+      if (++calls < 3) throw new Error("flaky");
+    }), { retry: { attempts: 3, initialDelayMs: 1 } });
+  const deploy = actionTree().at(-1)!;
+  assertEquals(deploy.attempts, 3);
+  assertEquals(deploy.children.map((c) => [c.label, c.status]), [["push", "OK"]]);
+  assertEquals(rollupStatus(deploy), "OK");
+  assert(runReport([deploy]).ok);
+});
+
+Deno.test("action dry run", async () => {
+  clearDryRunLog();
+  const print = false;
+  await action("dry", async () => {
+    assertEquals((await shAction`exit 1`).code, 0);
+    // nested actions inherit the mode, explicit options take precedence
+    await action("nested", () => shAction`exit 2`);
+    await assertRejects(() => shActionOpt({ dryRun: { print, result: { code: 3 } } })`exit 3`, ShellError);
+  }, { dryRun: { print } });
+
+  // the global switch applies to the commands of ./mod.ts as well
+  const dir = await Deno.makeTempDir();
+  defaultConfig.dryRun = { print };
+  try {
+    await shAction`exit 4`;
+    await action("global", async () => {
+      await sh`touch ${dir}/sh`;
+      await run`touch ${dir}/run`;
+    });
+    assertThrows(() => spawn`touch ${dir}/spawn`, Error, "not supported");
+  } finally {
+    defaultConfig.dryRun = undefined;
+  }
+  assertEquals([...Deno.readDirSync(dir)], []);
+  await Deno.remove(dir);
+  assertEquals(dryRunLog().map((e) => e.cmd), [
+    "exit 1",
+    "exit 2",
+    "exit 3",
+    "exit 4",
+    `touch ${dir}/sh`,
+    `touch ${dir}/run`,
+  ]);
+  await assertRejects(() => shAction`exit 5`, ShellError);
+});
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// durations vary from run to run
+function withoutDurations(s: string): string {
+  return s.replace(/\[\d+\.\ds\]/g, "[…]");
+}
+
+Deno.test("parallel", async () => {
+  // results in order, not in order of completion
+  const delays = [30, 20, 10, 0];
+  const results = await parallel(delays.map((ms, i) => ({ label: `a${i}`, f: () => sleep(ms).then(() => i) })));
+  assertEquals(results, [0, 1, 2, 3]);
+
+  let running = 0;
+  let peak = 0;
+  const f = async () => {
+    peak = Math.max(peak, ++running);
+    await sleep(10);
+    running--;
+  };
+  await parallel(Array.from({ length: 5 }, (_, i) => ({ label: `b${i}`, f })), { concurrency: 2 });
+  assertEquals(peak, 2);
+
+  // the first error in order, once all the actions finish
+  let finished = false;
+  const err = await assertRejects(() =>
+    parallel([
+      { label: "c0", f: () => sleep(20).then(() => Promise.reject(new Error("first"))) },
+      { label: "c1", f: () => Promise.reject(new Error("second")) },
+      { label: "c2", f: () => sleep(40).then(() => finished = true) },
+    ])
+  );
+  assert(err instanceof Error);
+  assertEquals(err.message, "first");
+  assert(finished);
+
+  for (const concurrency of [0, -1, NaN]) {
+    await assertRejects(() => parallel([{ label: "d", f }], { concurrency }), Error, "invalid concurrency");
+  }
+});
+
+Deno.test("parallel output without terminal", async () => {
+  await using s = await denoScript(`
+    import { defaultConfig, parallel } from "$SRC/action.ts";
+    defaultConfig.colors = false;
+    const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    await parallel([
+      { label: "slow", f: () => sleep(200) },
+      { label: "fast", f: () => sleep(50) },
+    ]);
+  `);
+  const output = await new Deno.Command(Deno.execPath(), { args: s.args }).output();
+  assertEquals(output.code, 0, new TextDecoder().decode(output.stderr));
+  // no spinners, only the final lines of the actions in order of completion
+  assertEquals(withoutDurations(new TextDecoder().decode(output.stdout)), "fast... OK […]\nslow... OK […]\n");
+});
+
+Deno.test("action summary", async () => {
+  const fail = () => Promise.reject(new Error("boom\ndetails"));
+  await action("Provision", async () => {
+    await action("Install", () => {});
+    await action("Restore", () => Promise.reject(new SkipError()));
+    await action("Build", () => Promise.reject(new UpToDateError()));
+    await action("Configure", () => action("Step", fail).catch(() => {}));
+    await action("Deploy", fail).catch(() => {});
+  });
+  await action("Cache", async () => {
+    await action("Restore", () => Promise.reject(new SkipError()));
+    await action("Build", () => Promise.reject(new UpToDateError()));
+  });
+  const [provision, cache] = actionTree().slice(-2);
+
+  // caught failures of the children fail the parent
+  assertEquals(provision.status, "OK");
+  assertEquals(rollupStatus(provision), "ERROR");
+  assertEquals(failureReason(provision), "failed: Configure, Deploy");
+  assertEquals(failureReason(provision.children[3]), "failed: Step");
+  assertEquals(failureReason(provision.children[4]), "boom\ndetails");
+  // skipped children don't
+  assertEquals(rollupStatus(cache), "OK");
+  assertEquals(failureReason(cache), undefined);
+
+  assertEquals(
+    withoutDurations(formatActionSummary([provision, cache], { colors: false })),
+    [
+      "✘ Provision ERROR […]: failed: Configure, Deploy",
+      "├─ ✔ Install OK […]",
+      "├─ ↷ Restore SKIPPED […]",
+      "├─ ≡ Build UP-TO-DATE […]",
+      "├─ ✘ Configure ERROR […]: failed: Step",
+      "│  └─ ✘ Step ERROR […]: boom",
+      "└─ ✘ Deploy ERROR […]: boom",
+      "✔ Cache OK […]",
+      "├─ ↷ Restore SKIPPED […]",
+      "└─ ≡ Build UP-TO-DATE […]",
+    ].join("\n"),
+  );
+});
+
+Deno.test({
+  name: "action interrupted",
+  ignore: Deno.build.os === "windows",
+  fn: async () => {
+    await using s = await denoScript(`
+      import { action, defaultConfig, shAction } from "$SRC/action.ts";
+      defaultConfig.colors = false;
+      await action("outer", () =>
+        action("inner", async () => {
+          console.error("started");
+          await shAction\`sleep 30\`;
+        }));
+    `);
+    const t0 = Date.now();
+    const p = new Deno.Command(Deno.execPath(), { args: s.args, stdout: "piped", stderr: "piped" }).spawn();
+    const stdout = new Response(p.stdout).text();
+    const stderr = p.stderr.pipeThrough(new TextDecoderStream()).getReader();
+    for (let err = ""; !err.includes("started");) {
+      const { value, done } = await stderr.read();
+      assert(!done, "the script exited prematurely");
+      err += value;
+    }
+    p.kill("SIGINT");
+    await stderr.cancel();
+    assertEquals((await p.status).code, 130);
+    // the command was terminated, not waited for
+    assert(Date.now() - t0 < 20000);
+    const out = await stdout;
+    const lines = withoutDurations(out).split("\n");
+    assert(lines.includes("  inner... INTERRUPTED […]"), out);
+    assert(lines.includes("outer... INTERRUPTED […]"), out);
+    assertEquals(lines.slice(-3), ["✘ outer INTERRUPTED […]", "└─ ✘ inner INTERRUPTED […]", ""]);
+  },
+});
@@ -0,0 +1,156 @@
+/**
+ * A command was started, see `shOpt`, `runOpt`, `spawnOpt` and `pipe` in ./mod.ts and `shellSession` in
+ * ./session.ts. Commands of a shell session have the pid of the session shell.
+ *
+ * Dry run commands (see `dryRun` in `ShellOptions`) have the start and end events too, with `dryRun` set and `pid` 0.
+ */
+export interface CommandStartEvent {
+  type: "commandStart";
+  time: Date;
+  /** Identifier of the command execution, the same in all its events, see `nextCommandId`. */
+  id: number;
+  /** The command with secrets redacted. */
+  cmd: string;
+  pid: number;
+  /** Working directory of the command. */
+  cwd: string;
+  /** Whether the command was not executed, see `dryRun` in `ShellOptions`. */
+  dryRun?: boolean;
+}
+
+/**
+ * A command wrote a chunk of output. The output itself is not included, only its size.
+ */
+export interface CommandOutputEvent {
+  type: "commandOutput";
+  time: Date;
+  id: number;
+  pid: number;
+  stream: "stdout" | "stderr";
+  bytes: number;
+}
+
+/**
+ * A command exited.
+ */
+export interface CommandEndEvent {
+  type: "commandEnd";
+  time: Date;
+  id: number;
+  cmd: string;
+  pid: number;
+  cwd: string;
+  elapsedMilliseconds: number;
+  code: number;
+  signal: Deno.Signal | null;
+  timedOut: boolean;
+  /** Total amount of bytes written to stdout/stderr by the command. */
+  outputBytes: { stdout: number; stderr: number };
+  dryRun?: boolean;
+}
+
+/**
+ * An action was started, see `action` in ./action.ts.
+ */
+export interface ActionStartEvent {
+  type: "actionStart";
+  time: Date;
+  /** Identifier of the action, the same in both its events. */
+  id: number;
+  /** Labels of the action's parents and of the action itself. */
+  path: string[];
+}
+
+/**
+ * An action finished.
+ */
+export interface ActionEndEvent {
+  type: "actionEnd";
+  time: Date;
+  id: number;
+  path: string[];
+  /** Final status of the action, see `ActionStatus` in ./action.ts. */
+  status: string;
+  elapsedMilliseconds: number;
+  /** Message of the error the action failed with. */
+  error?: string;
+}
+
+/**
+ * Execution event, see `addShellEventListener`.
+ */
+export type ShellEvent = CommandStartEvent | CommandOutputEvent | CommandEndEvent | ActionStartEvent | ActionEndEvent;
+
+/**
+ * Execution event listener.
+ */
+export type ShellEventListener = (event: ShellEvent) => void;
+
+const listeners = new Set<ShellEventListener>();
+let lastCommandId = 0;
+
+/**
+ * Allocate an identifier for a command execution, for executors emitting command events.
+ */
+export function nextCommandId(): number {
+  return ++lastCommandId;
+}
+
+/**
+ * Listen to the events of all the commands and actions. Listeners are called synchronously, as the things happen,
+ * and shouldn't block. Returns a function removing the listener. Use `onEvent` in `ShellOptions` to listen to the
+ * commands of a single tag function.
+ */
+export function addShellEventListener(listener: ShellEventListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/**
+ * Whether anybody listens to the events, lets the emitters skip preparing them.
+ */
+export function hasShellEventListeners(local?: ShellEventListener): boolean {
+  return listeners.size > 0 || local !== undefined;
+}
+
+/**
+ * Deliver an event to the global listeners and to the local one, if any. Listener failures are reported to stderr,
+ * they never break the command or action.
+ */
+export function emitShellEvent(event: ShellEvent, local?: ShellEventListener) {
+  for (const listener of local ? [...listeners, local] : listeners) {
+    try {
+      listener(event);
+    } catch (err) {
+      console.error(err);
+    }
+  }
+}
+
+/**
+ * JSON Lines sink options.
+ */
+export interface JsonlSinkOptions {
+  /**
+   * Types of the events to write.
+   *
+   * Default: all of them
+   */
+  types?: ShellEvent["type"][];
+}
+
+/**
+ * Produce a listener appending events to a file as JSON Lines, one event per line. The file is created if it doesn't
+ * exist. Each event is written synchronously, so the log is complete even if the program crashes. E.g. an audit log
+ * of everything the script runs:
+ * ```
+ * addShellEventListener(jsonlSink("audit.jsonl", { types: ["commandStart", "commandEnd"] }));
+ * ```
+ */
+export function jsonlSink(path: string | URL, opt?: JsonlSinkOptions): ShellEventListener {
+  const types = opt?.types && new Set(opt.types);
+  return (event) => {
+    if (types && !types.has(event.type)) return;
+    Deno.writeTextFileSync(path, JSON.stringify(event) + "\n", { append: true });
+  };
+}
@@ -0,0 +1,94 @@
+import { assert, assertEquals } from "@std/assert";
+import { action, defaultConfig, shAction } from "./action.ts";
+import { addShellEventListener, jsonlSink, type ShellEvent } from "./events.ts";
+import { shOpt } from "./mod.ts";
+import { shellSession } from "./session.ts";
+
+defaultConfig.verbosity = "quiet";
+
+Deno.test("command events", async () => {
+  const local: ShellEvent[] = [];
+  const global: ShellEvent[] = [];
+  const remove = addShellEventListener((e) => global.push(e));
+  try {
+    const dir = await Deno.realPath(await Deno.makeTempDir());
+    try {
+      await shOpt({ cwd: dir, onEvent: (e) => local.push(e) })`printf hello; printf oops >&2; exit 3`;
+    } finally {
+      await Deno.remove(dir);
+    }
+    assertEquals(local, global);
+    assertEquals(local.map((e) => e.type), ["commandStart", "commandOutput", "commandOutput", "commandEnd"]);
+    const [start, , , end] = local;
+    assert(start.type === "commandStart" && end.type === "commandEnd");
+    assertEquals([start.cmd, start.cwd, start.id, start.pid], [end.cmd, end.cwd, end.id, end.pid]);
+    assertEquals(start.cwd, dir);
+    assertEquals([end.code, end.signal, end.timedOut], [3, null, false]);
+    assertEquals(end.outputBytes, { stdout: 5, stderr: 4 });
+    const output = local.filter((e) => e.type === "commandOutput").map((e) => [e.stream, e.bytes]);
+    assertEquals(output.sort(), [["stderr", 4], ["stdout", 5]]);
+  } finally {
+    remove();
+  }
+  await shOpt({})`true`;
+  assertEquals(global.length, 4);
+});
+
+Deno.test("action events and jsonlSink", async () => {
+  const file = await Deno.makeTempFile();
+  const remove = addShellEventListener(jsonlSink(file, { types: ["actionStart", "actionEnd", "commandEnd"] }));
+  try {
+    await action("outer", async () => {
+      await action("inner", () => shAction`true`);
+      await action("failing", () => {
+        throw new Error("nope");
+      }).catch(() => {});
+    });
+  } finally {
+    remove();
+  }
+  const events = (await Deno.readTextFile(file)).trimEnd().split("\n").map((line) => JSON.parse(line));
+  await Deno.remove(file);
+  assertEquals(
+    events.map((e) => [e.type, e.path?.join(" / ") ?? e.cmd, e.status ?? e.code, e.error]),
+    [
+      ["actionStart", "outer", undefined, undefined],
+      ["actionStart", "outer / inner", undefined, undefined],
+      ["commandEnd", "true", 0, undefined],
+      ["actionEnd", "outer / inner", "OK", undefined],
+      ["actionStart", "outer / failing", undefined, undefined],
+      ["actionEnd", "outer / failing", "ERROR", "nope"],
+      ["actionEnd", "outer", "OK", undefined],
+    ],
+  );
+  assertEquals(events[0].id, events.at(-1).id);
+});
+
+Deno.test("session and dry run command events", async () => {
+  const events: ShellEvent[] = [];
+  const onEvent = (e: ShellEvent) => events.push(e);
+  const dir = await Deno.realPath(await Deno.makeTempDir());
+  try {
+    await using s = await shellSession({ onEvent });
+    await s.sh`cd ${dir}`;
+    await s.sh`exit 2`.catch(() => {});
+  } finally {
+    await Deno.remove(dir);
+  }
+  await shOpt({ dryRun: { print: false, result: { code: 1 } }, onEvent })`rm -rf /`;
+  const commands = events.filter((e) => e.type === "commandStart" || e.type === "commandEnd")
+    .map((e) => [e.type, e.cmd, e.cwd, e.type === "commandEnd" ? e.code : undefined, e.dryRun]);
+  assertEquals(commands, [
+    ["commandStart", "exec /bin/bash -s", Deno.cwd(), undefined, undefined],
+    ["commandStart", "true", Deno.cwd(), undefined, undefined],
+    ["commandEnd", "true", Deno.cwd(), 0, undefined],
+    ["commandStart", `cd ${dir}`, Deno.cwd(), undefined, undefined],
+    ["commandEnd", `cd ${dir}`, Deno.cwd(), 0, undefined],
+    ["commandStart", "exit 2", dir, undefined, undefined],
+    // the command failed because the shell exited
+    ["commandEnd", "exec /bin/bash -s", Deno.cwd(), 2, undefined],
+    ["commandEnd", "exit 2", dir, 2, undefined],
+    ["commandStart", "rm -rf /", Deno.cwd(), undefined, true],
+    ["commandEnd", "rm -rf /", Deno.cwd(), 1, true],
+  ]);
+});
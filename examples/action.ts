@@ -25,9 +25,10 @@ await action("This action will be skipped, eventually", async () => {
   await shAction`sleep 2`;
   throw new SkipError();
 });
-// Note that terminated = true, because aborted signal causes command to be terminated via SIGTERM, which in turn
-// results in shAction throwing an error, but because it happens after timeout, the error is ignored by action as
-// part of the Promise.race logic. Never the less it leads to loop termination, which is the intention.
+// Note that terminated = true, because aborted signal causes command's process group to be terminated via SIGTERM
+// (`sleep` included, not just the shell), which in turn results in shAction throwing an error, but because it happens
+// after timeout, the error is ignored by action as part of the Promise.race logic. Never the less it leads to loop
+// termination, which is the intention.
 console.log(`terminated: ${terminated}`);
 await action("This action will result in an error", async () => {
   await shAction`sleep 2`;
@@ -0,0 +1,13 @@
+import { action, shAction } from "../action.ts";
+import { addShellEventListener, jsonlSink } from "../events.ts";
+
+// Every command and action of the script ends up in the audit log, one JSON object per line.
+const log = "/tmp/shell-util-audit.jsonl";
+addShellEventListener(jsonlSink(log, { types: ["actionStart", "actionEnd", "commandStart", "commandEnd"] }));
+
+await action("Collect facts", async () => {
+  await shAction`uname -a`;
+  await shAction`df -h /`;
+});
+
+console.log(await Deno.readTextFile(log));
@@ -0,0 +1,16 @@
+import { action, defaultConfig, shAction } from "../action.ts";
+import { dryRunLog } from "../mod.ts";
+
+// Review what the script would do: `deno run -A examples/dry_run.ts`, run it for real with `--apply`.
+defaultConfig.dryRun = !Deno.args.includes("--apply");
+
+const dir = "/tmp/shell-util-dry-run-example";
+await action("Rotate logs", async () => {
+  await shAction`mkdir -p ${dir}/archive`;
+  await action("Compress", () => shAction`find ${dir} -maxdepth 1 -name '*.log' -exec gzip {} +`);
+  await shAction`find ${dir} -maxdepth 1 -name '*.gz' -exec mv -t ${dir}/archive {} +`;
+});
+
+if (defaultConfig.dryRun) {
+  console.log(`\n${dryRunLog().length} commands were not executed, use --apply to execute them.`);
+}
@@ -0,0 +1,17 @@
+import { shOpt } from "../mod.ts";
+import { printShellResult } from "../print.ts";
+
+{
+  console.log(`keep only the end of a huge output in memory:`);
+  const result = await shOpt({ maxOutputBytes: 64 })`seq 1 1000000`;
+  printShellResult(result, { verbose: true });
+}
+
+{
+  console.log(`write the output straight to a file:`);
+  const path = await Deno.makeTempFile();
+  const result = await shOpt({ stdoutFile: path })`seq 1 1000000; exit 1`;
+  printShellResult(result);
+  console.log(`${(await Deno.stat(path)).size} bytes in ${path}`);
+  await Deno.remove(path);
+}
@@ -0,0 +1,15 @@
+import { action, shAction } from "../action.ts";
+import { incremental } from "../incremental.ts";
+
+// Run it twice: the second time the action is UP-TO-DATE. Touch the inputs or remove the output to rebuild.
+const dir = "/tmp/shell-util-incremental-example";
+await Deno.mkdir(dir, { recursive: true });
+await Deno.writeTextFile(`${dir}/input.txt`, "hello\n", { create: true, append: false });
+
+await action(
+  "Expensive build step",
+  incremental(
+    { inputs: [`${dir}/input.txt`], outputs: [`${dir}/output.txt`], cacheFile: `${dir}/cache.json` },
+    () => shAction`sleep 2 && tr a-z A-Z < ${`${dir}/input.txt`} > ${`${dir}/output.txt`}`,
+  ),
+);
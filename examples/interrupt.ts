@@ -0,0 +1,11 @@
+import { action, parallel, shAction } from "../action.ts";
+
+// Press Ctrl-C while it runs: the actions are marked INTERRUPTED, the sleeping commands are terminated and the
+// summary is printed. The exit code is 130.
+await action("Provision", async () => {
+  await action("Download", () => shAction`sleep 1`);
+  await parallel([
+    { label: "Build frontend", f: () => shAction`sleep 30` },
+    { label: "Build backend", f: () => shAction`sleep 30` },
+  ]);
+});
@@ -0,0 +1,27 @@
+import { action, parallel, printActionSummary, shAction, SkipError } from "../action.ts";
+
+try {
+  await action("Provision", async () => {
+    await action("Install packages", async () => {
+      await shAction`sleep 1`;
+    });
+    await action("Restore backup", () => {
+      throw new SkipError();
+    });
+    await parallel<unknown>([
+      { label: "Configure web", f: () => shAction`sleep 1` },
+      {
+        label: "Configure database",
+        f: async () => {
+          await action("Create users", () => shAction`sleep 0.5`);
+          await action("Run migrations", () => shAction`sleep 0.5 && echo ${"migration failed"} 1>&2 && exit 1`);
+        },
+      },
+    ]);
+  });
+} catch {
+  // the error is printed already
+}
+
+console.log();
+printActionSummary();
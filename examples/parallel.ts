@@ -0,0 +1,15 @@
+import { parallel, shAction, SkipError } from "../action.ts";
+
+await parallel([
+  { label: "Fetching sources", f: () => shAction`sleep 2` },
+  { label: "Warming up the cache", f: () => shAction`sleep 1` },
+  {
+    label: "Optional step",
+    f: async () => {
+      await shAction`sleep 1.5`;
+      throw new SkipError();
+    },
+  },
+  { label: "Slow step", f: () => shAction`sleep 5`, config: { timeoutSeconds: 3 } },
+  { label: "Broken step", f: () => shAction`sleep 2.5 && echo ${"Very bad error happened"} 1>&2 && exit 1` },
+], { concurrency: 4 }).catch((err) => console.log(`first error: ${err.message}`));
@@ -0,0 +1,17 @@
+import { pipe, pipeOpt, stage } from "../mod.ts";
+import { printPipelineResult } from "../print.ts";
+
+{
+  console.log(`stream data between processes and through a JS transform:`);
+  const upper = new TransformStream<Uint8Array, Uint8Array>({
+    transform: (chunk, c) => c.enqueue(new TextEncoder().encode(new TextDecoder().decode(chunk).toUpperCase())),
+  });
+  const result = await pipe(stage`seq 1 100000`, stage`grep 7`, upper, stage`tail -n 3`);
+  printPipelineResult(result, { verbose: true });
+}
+
+{
+  console.log(`failing stage makes the whole pipeline fail, binary output:`);
+  const result = await pipeOpt({}, "binary")(stage`echo ${"hello"}`, stage`gzip`, stage`echo oops 1>&2; exit 3`);
+  printPipelineResult(result);
+}
@@ -0,0 +1,14 @@
+import { action, shAction } from "../action.ts";
+import { writeRunReportsOnExit } from "../report.ts";
+
+// The reports are written when the script exits, no matter how.
+const dir = "/tmp/shell-util-report-example";
+await Deno.mkdir(dir, { recursive: true });
+writeRunReportsOnExit({ junit: `${dir}/junit.xml`, json: `${dir}/report.json`, name: "provisioning" });
+
+await action("Provision", async () => {
+  await action("Install packages", () => shAction`echo installed`);
+  await action("Configure", () => shAction`echo 'missing config file' >&2; exit 1`);
+}).catch(() => Deno.exitCode = 1);
+
+console.log(`Reports are written to ${dir}`);
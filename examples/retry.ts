@@ -0,0 +1,23 @@
+import { action, parallel, printActionSummary, retryOnShellError, shAction, shActionOpt } from "../action.ts";
+
+// A command failing randomly with exit code 75 (EX_TEMPFAIL), as a flaky package mirror would.
+const flaky = "sleep 0.5; [ $((RANDOM % 3)) -eq 0 ] || { echo 'temporary failure' >&2; exit 75; }";
+const retry = { attempts: 5, initialDelayMs: 300, retryOn: retryOnShellError({ codes: [75] }) };
+
+try {
+  // retry the command itself
+  await action("Fetch sources", () => shActionOpt({ retry })`bash -c ${flaky}`);
+
+  // retry whole actions, shown in the live region as "(retry 2/5)"
+  await parallel(
+    ["mirror-a", "mirror-b", "mirror-c"].map((name) => ({
+      label: `Download from ${name}`,
+      f: () => shAction`bash -c ${flaky}`,
+      config: { retry },
+    })),
+  );
+} catch {
+  // the failure is already printed
+}
+
+printActionSummary();
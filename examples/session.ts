@@ -0,0 +1,15 @@
+import { shellSession } from "../session.ts";
+import { printShellResult } from "../print.ts";
+
+await using s = await shellSession();
+
+console.log(`shell state carries over from one command to another:`);
+await s.sh`cd /tmp; export GREETING=${"Hello, world"}`;
+printShellResult(await s.sh`pwd; echo "$GREETING"`, { verbose: true });
+
+console.log(`hundreds of small commands without spawning a process for each:`);
+const t0 = Date.now();
+for (let i = 0; i < 500; i++) {
+  await s.sh`n=$((n + 1))`;
+}
+printShellResult(await s.sh`echo "$n commands in ${Date.now() - t0}ms"`, { verbose: true });
@@ -0,0 +1,17 @@
+import { sh, spawn } from "../mod.ts";
+import { printShellResult } from "../print.ts";
+
+{
+  console.log(`start a background command and wait until it reports readiness:`);
+  const server = spawn`sleep 1; echo "server is ready"; sleep 60`;
+  console.log(await server.waitForLine(/ready/));
+  server.kill();
+  printShellResult(await server.wait(), { verbose: true });
+}
+
+{
+  console.log(`start a web server, wait for the port and stop the server when it goes out of scope:`);
+  await using server = spawn`python3 -m http.server 8765 --bind 127.0.0.1`;
+  await server.waitForPort(8765);
+  printShellResult(await sh`curl -s -o /dev/null -w '%{http_code}' http://127.0.0.1:8765/`, { verbose: true });
+}
@@ -0,0 +1,17 @@
+import { shOpt } from "../mod.ts";
+
+async function* numbers() {
+  for (let i = 0; i < 5; i++) {
+    yield `${i}\n`;
+    await new Promise((resolve) => setTimeout(resolve, 200));
+  }
+}
+
+console.log(`stream data to the command as it's being produced:`);
+console.log((await shOpt({ stdin: numbers() })`tac`).stdout);
+
+console.log(`pass a file via stdin:`);
+console.log((await shOpt({ stdin: { file: import.meta.filename! } })`wc -l`).stdout);
+
+console.log(`let the command read from the terminal (type something and press Ctrl-D):`);
+console.log((await shOpt({ stdin: { inherit: true } })`wc -c`).stdout);
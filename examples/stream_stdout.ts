@@ -1,6 +1,10 @@
-import { sh } from "../mod.ts";
+import { shOpt } from "../mod.ts";
 
 {
   console.log(`stream the stdout of the command while it's running:`);
-  await sh`echo 1 > /dev/tty; sleep 1; echo 2 > /dev/tty; sleep 1; echo 3 > /dev/tty; sleep 1;`;
-}
\ No newline at end of file
+  const result = await shOpt({
+    onStdoutLine: (line) => console.log(`stdout: ${line}`),
+    onStderrLine: (line) => console.log(`stderr: ${line}`),
+  })`echo 1; sleep 1; echo 2 1>&2; sleep 1; echo 3; sleep 1;`;
+  console.log(`exit code: ${result.code}`);
+}
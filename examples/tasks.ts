@@ -0,0 +1,17 @@
+import { shAction, SkipError } from "../action.ts";
+import { taskRegistry } from "../tasks.ts";
+
+// Try: deno run -A examples/tasks.ts --list
+//      deno run -A examples/tasks.ts --continue
+//      deno run -A examples/tasks.ts --only test
+const tasks = taskRegistry();
+tasks.define("codegen", { description: "generate sources" }, () => shAction`sleep 1`);
+tasks.define("fetch", { description: "download dependencies" }, () => shAction`sleep 1.5`);
+tasks.define("build", { deps: ["codegen", "fetch"] }, () => shAction`sleep 1`);
+tasks.define("lint", { deps: ["codegen"] }, () => shAction`sleep 0.5 && echo ${"style violation"} 1>&2 && exit 1`);
+tasks.define("docs", { deps: ["codegen"] }, () => {
+  throw new SkipError();
+});
+tasks.define("test", { deps: ["build"] }, () => shAction`sleep 1`);
+tasks.define("default", { deps: ["test", "lint", "docs"] }, () => {});
+Deno.exit(await tasks.main(Deno.args));
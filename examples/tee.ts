@@ -0,0 +1,6 @@
+import { shOpt } from "../mod.ts";
+import { printShellResult } from "../print.ts";
+
+console.log(`pass the output through to the terminal while capturing it:`);
+const result = await shOpt({ tee: true })`for i in 1 2 3; do echo "step $i"; sleep 1; done; echo done 1>&2`;
+printShellResult(result, { verbose: true });
@@ -0,0 +1,8 @@
+import { sh } from "../mod.ts";
+import { printShellResult } from "../print.ts";
+import { transport, via } from "../transport.ts";
+
+// In real life these would be something like transport`ssh ${host}` and transport`sudo sh -c`.
+const nested = via(sh, transport`bash -c`, transport`sh -c`);
+
+printShellResult(await nested`echo ${"it's $HOME"} from $0`, { verbose: true });
@@ -0,0 +1,182 @@
+import { type ActionNode, currentAction, UpToDateError } from "./action.ts";
+import { encodeHex } from "@std/encoding/hex";
+
+/**
+ * Declared inputs and outputs of an incremental action, see `incremental`.
+ */
+export interface IncrementalSpec {
+  /**
+   * Input files, directories (all the files inside, recursively) or glob patterns (`*`, `?` and `**`). Relative
+   * paths are resolved against the current working directory.
+   */
+  inputs: string[];
+  /**
+   * Output files or glob patterns, all of them have to exist (each pattern has to match something) for the action
+   * to be up to date.
+   *
+   * Default: `[]`
+   */
+  outputs?: string[];
+  /**
+   * Cache key of the action.
+   *
+   * Default: labels of the current action and its parents joined with `" / "`
+   */
+  key?: string;
+  /**
+   * Path to the cache file keeping input hashes of the last successful runs.
+   *
+   * Default: `".shell-util-cache.json"`
+   */
+  cacheFile?: string;
+}
+
+interface CacheEntry {
+  hash: string;
+  updatedAt: string;
+}
+
+type Cache = Record<string, CacheEntry>;
+
+const globCharsRE = /[*?]/;
+
+// Convert a glob pattern to a regular expression matching slash separated paths.
+function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      // "**/" matches zero or more directories, "**" at the end matches everything
+      const slash = glob[i + 2] === "/";
+      re += slash ? "(?:.*/)?" : ".*";
+      i += slash ? 2 : 1;
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else if (c === "?") {
+      re += "[^/]";
+    } else {
+      re += c.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+async function walk(dir: string, files: string[]) {
+  for await (const entry of Deno.readDir(dir)) {
+    const path = `${dir}/${entry.name}`;
+    if (entry.isDirectory) {
+      await walk(path, files);
+    } else if (entry.isFile) {
+      files.push(path);
+    }
+  }
+}
+
+// Expand a file, directory or glob pattern into a sorted list of files. Missing files produce an empty list.
+async function expand(pattern: string): Promise<string[]> {
+  const files: string[] = [];
+  if (!globCharsRE.test(pattern)) {
+    try {
+      const stat = await Deno.stat(pattern);
+      if (stat.isDirectory) {
+        await walk(pattern.replace(/\/+$/, ""), files);
+      } else {
+        files.push(pattern);
+      }
+    } catch (err) {
+      if (!(err instanceof Deno.errors.NotFound)) throw err;
+    }
+    return files.sort();
+  }
+  // walk from the longest directory prefix without glob characters
+  const segments = pattern.split("/");
+  const base = segments.slice(0, segments.findIndex((s) => globCharsRE.test(s))).join("/");
+  const re = globToRegExp(pattern);
+  try {
+    await walk(base || ".", files);
+  } catch (err) {
+    if (!(err instanceof Deno.errors.NotFound)) throw err;
+  }
+  return files.map((f) => base ? f : f.replace(/^\.\//, "")).filter((f) => re.test(f)).sort();
+}
+
+async function inputsHash(spec: IncrementalSpec): Promise<string> {
+  const te = new TextEncoder();
+  const parts: Uint8Array[] = [te.encode(JSON.stringify([spec.inputs, spec.outputs ?? []]))];
+  for (const pattern of spec.inputs) {
+    for (const file of await expand(pattern)) {
+      parts.push(te.encode(`\n${file}\n`));
+      parts.push(new Uint8Array(await crypto.subtle.digest("SHA-256", await Deno.readFile(file))));
+    }
+  }
+  const data = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const p of parts) {
+    data.set(p, offset);
+    offset += p.byteLength;
+  }
+  return encodeHex(new Uint8Array(await crypto.subtle.digest("SHA-256", data)));
+}
+
+async function outputsExist(spec: IncrementalSpec): Promise<boolean> {
+  for (const pattern of spec.outputs ?? []) {
+    if ((await expand(pattern)).length === 0) return false;
+  }
+  return true;
+}
+
+async function readCache(path: string): Promise<Cache> {
+  try {
+    return JSON.parse(await Deno.readTextFile(path));
+  } catch (err) {
+    if (err instanceof Deno.errors.NotFound) return {};
+    throw err;
+  }
+}
+
+// cache updates are serialized, actions running in parallel share the file
+let cacheQueue: Promise<unknown> = Promise.resolve();
+
+function updateCache(path: string, key: string, entry: CacheEntry): Promise<void> {
+  const p = cacheQueue.then(async () => {
+    const cache = await readCache(path);
+    cache[key] = entry;
+    const tmp = `${path}.tmp`;
+    await Deno.writeTextFile(tmp, JSON.stringify(cache, null, 2) + "\n");
+    await Deno.rename(tmp, path);
+  });
+  cacheQueue = p.catch(() => {});
+  return p;
+}
+
+function actionPath(node: ActionNode | undefined): string {
+  if (!node) throw new Error("incremental action requires a key when used outside of an action");
+  return node.parent ? `${actionPath(node.parent)} / ${node.label}` : node.label;
+}
+
+/**
+ * Make an action function incremental: it's skipped (throws `UpToDateError`, rendered as UP-TO-DATE by `action`)
+ * when the content of its inputs is the same as during the last successful run and all its outputs exist. E.g.
+ * ```
+ * await action("Build image", incremental({ inputs: ["Dockerfile", "src"], outputs: ["image.tar"] }, async () => {
+ *   await shAction`docker build -t app . && docker save app -o image.tar`;
+ * }));
+ * ```
+ *
+ * Input hashes are stored in a local cache file after each successful run. Delete the file to force a rebuild.
+ */
+export function incremental<T>(
+  spec: IncrementalSpec,
+  f: (asig: AbortSignal) => Promise<T> | T,
+): (asig: AbortSignal) => Promise<T> {
+  return async (asig) => {
+    const key = spec.key ?? actionPath(currentAction());
+    const cacheFile = spec.cacheFile ?? ".shell-util-cache.json";
+    const hash = await inputsHash(spec);
+    const entry = (await readCache(cacheFile))[key];
+    if (entry?.hash === hash && await outputsExist(spec)) throw new UpToDateError();
+    const result = await f(asig);
+    await updateCache(cacheFile, key, { hash, updatedAt: new Date().toISOString() });
+    return result;
+  };
+}
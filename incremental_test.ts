@@ -0,0 +1,56 @@
+import { assertEquals } from "@std/assert";
+import { action, defaultConfig } from "./action.ts";
+import { incremental } from "./incremental.ts";
+
+defaultConfig.verbosity = "quiet";
+
+Deno.test("incremental", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    await Deno.mkdir(`${dir}/src/nested`, { recursive: true });
+    await Deno.writeTextFile(`${dir}/src/a.txt`, "a");
+    await Deno.writeTextFile(`${dir}/src/nested/b.txt`, "b");
+    await Deno.writeTextFile(`${dir}/src/nested/ignored.log`, "log");
+    let runs = 0;
+    const build = () =>
+      action(
+        "build",
+        incremental({
+          inputs: [`${dir}/src/**/*.txt`],
+          outputs: [`${dir}/out.txt`],
+          cacheFile: `${dir}/cache.json`,
+        }, async () => {
+          runs++;
+          await Deno.writeTextFile(`${dir}/out.txt`, "out");
+        }),
+      );
+
+    await build();
+    assertEquals(runs, 1);
+    await build();
+    assertEquals(runs, 1);
+
+    await Deno.writeTextFile(`${dir}/src/nested/ignored.log`, "changed");
+    await build();
+    assertEquals(runs, 1);
+
+    await Deno.writeTextFile(`${dir}/src/nested/b.txt`, "changed");
+    await build();
+    assertEquals(runs, 2);
+
+    await Deno.remove(`${dir}/out.txt`);
+    await build();
+    assertEquals(runs, 3);
+
+    await Deno.writeTextFile(`${dir}/src/c.txt`, "new file");
+    await build();
+    assertEquals(runs, 4);
+    await build();
+    assertEquals(runs, 4);
+
+    const cache = JSON.parse(await Deno.readTextFile(`${dir}/cache.json`));
+    assertEquals(Object.keys(cache), ["build"]);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
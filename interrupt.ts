@@ -0,0 +1,64 @@
+import { killAllRunning } from "./mod.ts";
+
+const cleanups = new Set<() => void | Promise<unknown>>();
+const signals: Deno.Signal[] = Deno.build.os === "windows" ? ["SIGINT"] : ["SIGINT", "SIGTERM"];
+let interrupted = false;
+
+function onSignal() {
+  // the second Ctrl-C doesn't wait for anything, commands in their own process groups would outlive the program
+  if (interrupted) {
+    killAllRunning("SIGKILL");
+    Deno.exit(130);
+  }
+  interrupted = true;
+  const pending: Promise<unknown>[] = [];
+  // the most recently registered first, i.e. nested actions before their parents
+  for (const cleanup of [...cleanups].reverse()) {
+    try {
+      const p = cleanup();
+      if (p) pending.push(p.catch((err) => console.error(err)));
+    } catch (err) {
+      console.error(err);
+    }
+  }
+  Promise.all(pending).finally(() => Deno.exit(130));
+}
+
+/**
+ * Run the cleanup function on Ctrl-C (SIGINT) or SIGTERM, until the returned function is called. The library
+ * handles the signals only while there are cleanups registered, i.e. while actions (see ./action.ts), spinners
+ * (see ./spinner.ts) or commands started in their own process group (see `processGroup` in `ShellOptions`) are
+ * running:
+ *
+ * 1. Cleanups are called, the most recently registered first. Actions abort their `AbortSignal`, print the
+ *    `INTERRUPTED` status and terminate the running commands, see `terminateRunningProcesses`.
+ * 2. The program exits with code 130 once the promises returned by the cleanups, if any, settle.
+ *
+ * Pressing Ctrl-C the second time kills the running commands with SIGKILL and exits immediately. E.g.
+ * ```
+ * const done = onInterrupt(() => Deno.removeSync(tmpDir, { recursive: true }));
+ * try {
+ *   await work(tmpDir);
+ * } finally {
+ *   done();
+ * }
+ * ```
+ */
+export function onInterrupt(cleanup: () => void | Promise<unknown>): () => void {
+  if (cleanups.size === 0) {
+    for (const signal of signals) Deno.addSignalListener(signal, onSignal);
+  }
+  cleanups.add(cleanup);
+  return () => {
+    if (!cleanups.delete(cleanup) || cleanups.size > 0) return;
+    for (const signal of signals) Deno.removeSignalListener(signal, onSignal);
+  };
+}
+
+/**
+ * Whether the program is being interrupted, i.e. Ctrl-C was pressed while there were cleanups registered and the
+ * program is about to exit. See `onInterrupt`.
+ */
+export function isInterrupted(): boolean {
+  return interrupted;
+}
@@ -0,0 +1,266 @@
+import {
+  makeTagFunction,
+  type QuoteDialect,
+  redactSecrets,
+  type ShellResult,
+  type ShellResultBinary,
+  type TagFunction,
+} from "./mod.ts";
+import { decodeHex, encodeHex } from "@std/encoding/hex";
+
+/**
+ * Scripted outcome of a mocked command, see `mockShell`.
+ */
+export interface MockResponse {
+  /**
+   * Exit code of the command.
+   *
+   * Default: `0`
+   */
+  code?: number;
+  /**
+   * Standard output of the command, strings are encoded as UTF-8 for binary results.
+   *
+   * Default: `""`
+   */
+  stdout?: string | Uint8Array;
+  /**
+   * Standard error output of the command, see `stdout`.
+   *
+   * Default: `""`
+   */
+  stderr?: string | Uint8Array;
+  /**
+   * Signal the command was killed by.
+   *
+   * Default: `null`
+   */
+  signal?: Deno.Signal | null;
+  /**
+   * How long the command "runs" before the result is returned, in milliseconds.
+   *
+   * Default: `0`
+   */
+  delayMs?: number;
+  /**
+   * Reject with this error instead of returning a result, e.g. to simulate a failure to start the process.
+   *
+   * Default: `undefined`
+   */
+  error?: unknown;
+}
+
+/**
+ * Mock options.
+ */
+export interface MockOptions {
+  /**
+   * Quoting dialect of the mocked tag functions, see `QuoteDialect`. Commands are matched after quoting.
+   *
+   * Default: `"posix"`
+   */
+  dialect?: QuoteDialect;
+  /**
+   * Response to commands not matching any rule. By default such commands are rejected with `MockError`, which makes
+   * unexpected commands fail tests loudly.
+   *
+   * Default: `undefined`
+   */
+  fallback?: MockResponse;
+}
+
+/**
+ * A test double for shell tag functions, see `mockShell`.
+ */
+export interface ShellMock {
+  /** Mocked text tag function, a drop-in replacement of `sh`. */
+  readonly sh: TagFunction<ShellResult>;
+  /** Mocked binary tag function, a drop-in replacement of `shOpt({}, "binary")`. */
+  readonly shBinary: TagFunction<ShellResultBinary>;
+  /**
+   * Add a rule: commands equal to the string or matching the regular expression get the response. Rules are tried
+   * in order of definition, a rule with `times` stops matching after being used that many times.
+   */
+  on(
+    match: string | RegExp,
+    response: MockResponse | ((cmd: string) => MockResponse),
+    times?: number,
+  ): ShellMock;
+  /** Quoted commands executed so far, in order of execution. */
+  readonly calls: readonly string[];
+  /** Rules which were expected to be used a number of times, but were used fewer times. */
+  pending(): Array<string | RegExp>;
+}
+
+/**
+ * Custom error class for commands not matching any rule of a mock.
+ */
+export class MockError extends Error {
+  constructor(cmd: string) {
+    super(`unexpected command: ${cmd}`);
+    this.name = this.constructor.name;
+    this.stack = new Error().stack;
+  }
+}
+
+interface MockRule {
+  match: string | RegExp;
+  response: MockResponse | ((cmd: string) => MockResponse);
+  remaining: number;
+}
+
+const te = new TextEncoder();
+const td = new TextDecoder();
+
+function toBytes(v: string | Uint8Array | undefined): Uint8Array {
+  return typeof v === "string" || v === undefined ? te.encode(v ?? "") : v;
+}
+
+function toText(v: string | Uint8Array | undefined): string {
+  return typeof v === "string" || v === undefined ? v ?? "" : td.decode(v);
+}
+
+/**
+ * Create a test double for code built on shell tag functions. Commands are matched against rules by their exact
+ * quoted text or a regular expression and get scripted results, nothing is executed. E.g.
+ * ```
+ * const mock = mockShell()
+ *   .on("git rev-parse HEAD", { stdout: "3f2a1c" })
+ *   .on(/^git push /, { code: 1, stderr: "rejected", delayMs: 100 });
+ * await deploy(mock.sh); // deploy(sh: TagFunction<ShellResult>) in production code
+ * assertEquals(mock.calls, ["git rev-parse HEAD", "git push origin main"]);
+ * ```
+ *
+ * Commands are matched with secrets redacted, i.e. as `cmd` of the results (see `secret`). Mocked tag functions
+ * support `.map()` like any other, so wrappers like `shAction` can be rebuilt on top of them.
+ */
+export function mockShell(opt?: MockOptions): ShellMock {
+  const rules: MockRule[] = [];
+  const calls: string[] = [];
+
+  const respond = async (cmd: string): Promise<{ response: MockResponse; elapsedMilliseconds: number }> => {
+    const t0 = Date.now();
+    calls.push(cmd);
+    const rule = rules.find((r) =>
+      r.remaining > 0 && (typeof r.match === "string" ? r.match === cmd : r.match.test(cmd))
+    );
+    if (!rule && !opt?.fallback) throw new MockError(cmd);
+    let response = opt?.fallback ?? {};
+    if (rule) {
+      rule.remaining--;
+      response = typeof rule.response === "function" ? rule.response(cmd) : rule.response;
+    }
+    if (response.delayMs) await new Promise((resolve) => setTimeout(resolve, response.delayMs));
+    if (response.error !== undefined) throw response.error;
+    return { response, elapsedMilliseconds: Date.now() - t0 };
+  };
+
+  const shBinary = makeTagFunction(async (quoted): Promise<ShellResultBinary> => {
+    const cmd = redactSecrets(quoted);
+    const { response, elapsedMilliseconds } = await respond(cmd);
+    return {
+      code: response.code ?? 0,
+      stdout: toBytes(response.stdout),
+      stderr: toBytes(response.stderr),
+      cmd,
+      elapsedMilliseconds,
+      signal: response.signal ?? null,
+    };
+  }, opt?.dialect);
+
+  const sh = makeTagFunction(async (quoted): Promise<ShellResult> => {
+    const cmd = redactSecrets(quoted);
+    const { response, elapsedMilliseconds } = await respond(cmd);
+    return {
+      code: response.code ?? 0,
+      stdout: toText(response.stdout),
+      stderr: toText(response.stderr),
+      cmd,
+      elapsedMilliseconds,
+      signal: response.signal ?? null,
+      trimmed: false,
+    };
+  }, opt?.dialect);
+
+  const mock: ShellMock = {
+    sh,
+    shBinary,
+    on(match, response, times = Infinity) {
+      rules.push({ match, response, remaining: times });
+      return mock;
+    },
+    calls,
+    pending() {
+      return rules.filter((r) => r.remaining > 0 && r.remaining !== Infinity).map((r) => r.match);
+    },
+  };
+  return mock;
+}
+
+// A recorded command in a fixture file, binary output is hex encoded.
+interface FixtureEntry {
+  cmd: string;
+  code: number;
+  stdout: string;
+  stderr: string;
+  signal?: Deno.Signal | null;
+  binary?: boolean;
+}
+
+/**
+ * A tag function recording executed commands, see `recordShell`.
+ */
+export interface ShellRecorder<T extends ShellResult | ShellResultBinary> {
+  /** The recording tag function. */
+  readonly sh: TagFunction<T>;
+  /** Write the commands recorded so far with their results to the fixture file. */
+  save(): Promise<void>;
+}
+
+/**
+ * Record commands executed by a tag function and their results, to be served by `replayShell` later. E.g.
+ * ```
+ * const recorder = recordShell("testdata/deploy.json", sh);
+ * await deploy(recorder.sh);
+ * await recorder.save();
+ * ```
+ *
+ * Note that the output of the commands ends up in the fixture file as is, mind the secrets.
+ */
+export function recordShell<T extends ShellResult | ShellResultBinary>(
+  path: string,
+  f: TagFunction<T>,
+): ShellRecorder<T> {
+  const entries: FixtureEntry[] = [];
+  return {
+    sh: f.map((result, cmd) => {
+      const binary = typeof result.stdout !== "string";
+      const encode = (v: string | Uint8Array) => typeof v === "string" ? v : encodeHex(v);
+      entries.push({
+        cmd: redactSecrets(cmd),
+        code: result.code,
+        stdout: encode(result.stdout),
+        stderr: encode(result.stderr),
+        signal: result.signal ?? null,
+        ...(binary ? { binary } : {}),
+      });
+      return result;
+    }),
+    save: () => Deno.writeTextFile(path, JSON.stringify(entries, null, 2) + "\n"),
+  };
+}
+
+/**
+ * Serve commands recorded by `recordShell` back. Each recorded command is served once, in order of recording, i.e.
+ * the same command executed twice gets the two recorded results. Commands which weren't recorded are rejected with
+ * `MockError`, see `mockShell` for the rest of the interface.
+ */
+export async function replayShell(path: string, opt?: MockOptions): Promise<ShellMock> {
+  const entries: FixtureEntry[] = JSON.parse(await Deno.readTextFile(path));
+  const mock = mockShell(opt);
+  for (const e of entries) {
+    const decode = (v: string) => e.binary ? decodeHex(v) : v;
+    mock.on(e.cmd, { code: e.code, stdout: decode(e.stdout), stderr: decode(e.stderr), signal: e.signal }, 1);
+  }
+  return mock;
+}
@@ -0,0 +1,67 @@
+import { assert, assertEquals, assertRejects } from "@std/assert";
+import { MockError, mockShell, recordShell, replayShell } from "./mock.ts";
+import { secret, sh, type ShellResult, shOpt } from "./mod.ts";
+
+Deno.test("mockShell", async () => {
+  const boom = new Error("boom");
+  const mock = mockShell()
+    .on("git rev-parse HEAD", { stdout: "3f2a1c" })
+    .on(/^git push /, { code: 1, stderr: "rejected" }, 1)
+    .on(/^git push /, { delayMs: 20 })
+    .on(/^curl /, { error: boom });
+
+  const head = await mock.sh.map((r) => r.stdout)`git rev-parse HEAD`;
+  assertEquals(head, "3f2a1c");
+  assertEquals((await mock.sh`git push origin ${"main"}`).code, 1);
+  const t0 = Date.now();
+  assertEquals((await mock.sh`git push origin ${"main"}`).code, 0);
+  assert(Date.now() - t0 >= 15);
+  assertEquals(await assertRejects(() => mock.sh`curl ${secret("token")}`), boom);
+  await assertRejects(() => mock.sh`rm -rf ${"/"}`, MockError, "unexpected command: rm -rf /");
+  assertEquals((await mock.shBinary`git rev-parse HEAD`).stdout, new TextEncoder().encode("3f2a1c"));
+  assertEquals(mock.calls, [
+    "git rev-parse HEAD",
+    "git push origin main",
+    "git push origin main",
+    "curl ***",
+    "rm -rf /",
+    "git rev-parse HEAD",
+  ]);
+  assertEquals(mock.pending(), []);
+  assertEquals(mockShell().on("make", {}, 2).pending(), ["make"]);
+});
+
+Deno.test("recordShell and replayShell", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const fixture = `${dir}/fixture.json`;
+    const recorder = recordShell(fixture, sh);
+    const binaryRecorder = recordShell(`${dir}/binary.json`, shOpt({}, "binary"));
+    const recorded = [
+      await recorder.sh`echo one`,
+      await recorder.sh`echo ${"two words"} >&2; exit 3`,
+      await recorder.sh`echo one`,
+    ];
+    const recordedBinary = await binaryRecorder.sh`printf '\\000\\377'`;
+    await recorder.save();
+    await binaryRecorder.save();
+
+    const replay = await replayShell(fixture);
+    const replayed = [
+      await replay.sh`echo one`,
+      await replay.sh`echo ${"two words"} >&2; exit 3`,
+      await replay.sh`echo one`,
+    ];
+    const essence = ({ code, stdout, stderr, cmd }: ShellResult) => ({ code, stdout, stderr, cmd });
+    assertEquals(replayed.map(essence), recorded.map(essence));
+    assertEquals(recorded[1].stderr, "two words");
+    // each recorded command is served once
+    await assertRejects(() => replay.sh`echo one`, MockError);
+
+    assertEquals(recordedBinary.stdout, new Uint8Array([0, 255]));
+    const binaryReplay = await replayShell(`${dir}/binary.json`);
+    assertEquals((await binaryReplay.shBinary`printf '\\000\\377'`).stdout, recordedBinary.stdout);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
@@ -1,7 +1,14 @@
+import { bold, brightWhite } from "@std/fmt/colors";
+import { emitShellEvent, hasShellEventListeners, nextCommandId, type ShellEventListener } from "./events.ts";
+import { onInterrupt } from "./interrupt.ts";
+
 const safeShellCharsRE = /^[A-Za-z0-9,:=_\.\/\-]+$/;
 const singleQuoteSpanRE = /'+/g;
 
-function trimMaybe(v: string, shouldTrim: boolean): string {
+/**
+ * Trim the output of a command if requested, see `trim` in `ShellOptions`. Useful for building custom executors.
+ */
+export function trimMaybe(v: string, shouldTrim: boolean): string {
   return shouldTrim ? v.trim() : v;
 }
 
@@ -10,6 +17,35 @@ function trimMaybe(v: string, shouldTrim: boolean): string {
  */
 export type ShellArgumentType = string | number | boolean | bigint;
 
+/**
+ * Quoting rules of a shell family.
+ *
+ * - `"posix"`: POSIX sh and compatible shells (bash, dash, ksh, etc.).
+ * - `"zsh"`: same as POSIX, but also protects the leading `=` which zsh expands to a command path.
+ * - `"fish"`: backslash is an escape character inside single quotes.
+ * - `"powershell"`: single quotes are escaped by doubling, comma and leading dash have a special meaning.
+ */
+export type QuoteDialect = "posix" | "zsh" | "fish" | "powershell";
+
+/**
+ * Guess quoting dialect from the shell binary path, e.g. `/usr/bin/fish` is `"fish"` and `pwsh.exe` is
+ * `"powershell"`. Unknown shells are assumed to be POSIX compatible.
+ */
+export function dialectForShell(shell: string): QuoteDialect {
+  const name = shell.replace(/^.*[\\/]/, "").replace(/\.exe$/i, "").toLowerCase();
+  switch (name) {
+    case "zsh":
+      return "zsh";
+    case "fish":
+      return "fish";
+    case "pwsh":
+    case "powershell":
+      return "powershell";
+    default:
+      return "posix";
+  }
+}
+
 /**
  * Quote a string so that it's safe to use as a shell command argument.
  */
@@ -23,50 +59,305 @@ export function quoteString(s: string): string {
 }
 
 /**
- * Process the template string making it suitable to be executed as a shell command.
- *
- * This is a tag function for JS template literals. All arguments are processed through `quoteString`. Non-string
- * arguments are coerced to string first. Additionally this function works with arrays of arguments, each element
- * in the array is coerced to string and processed via `quoteString` and then the results are joined with a
- * space in-between.
+ * Quote a string so that it's safe to use as a command argument in a shell of the given dialect. The `"posix"`
+ * dialect is the same as `quoteString`.
+ */
+export function quoteStringFor(dialect: QuoteDialect, s: string): string {
+  switch (dialect) {
+    case "posix":
+      return quoteString(s);
+    case "zsh": {
+      const q = quoteString(s);
+      return q.startsWith("=") ? `'${q}'` : q;
+    }
+    case "fish":
+      if (!s) return "''";
+      if (safeShellCharsRE.test(s)) return s;
+      return "'" + s.replace(/[\\']/g, "\\$&") + "'";
+    case "powershell":
+      if (!s) return "''";
+      // leading dash would make it a parameter name for cmdlets, leading digits, dots and signs make it a number
+      // (`1kb`, `0x10`, `1e3`)
+      if (safeShellCharsRE.test(s) && !s.includes(",") && !/^[-+.\d]/.test(s)) return s;
+      // PowerShell treats typographic single quotes as regular ones
+      return "'" + s.replace(/['‘’‚‛]/g, "$&$&") + "'";
+  }
+}
+
+/**
+ * A piece of a command with custom formatting rules, see `raw`, `flags`, `assign` and `glob`.
  *
- * Empty arrays are handled in a special way sometimes resulting in spaces being removed. For example:
+ * Custom fragments can be created directly: `format` produces the command text for the given quoting dialect,
+ * `argv` produces the arguments for the direct execution mode (see `run`). Fragments without `argv` can't be used
+ * there.
+ */
+export class ShellFragment {
+  constructor(
+    readonly format: (dialect: QuoteDialect) => string,
+    readonly argv?: () => string[],
+  ) {}
+}
+
+/**
+ * Value of a flag in a flags object, see `flags`. `true` produces a bare flag, `false`, `null` and `undefined` omit
+ * the flag, arrays produce multiple values.
+ */
+export type ShellFlagValue = ShellArgumentType | ShellArgumentType[] | null | undefined;
+
+/**
+ * Flags object, keys are flag names. See `flags`.
+ */
+export type ShellFlags = { [name: string]: ShellFlagValue };
+
+/**
+ * Supported template argument type of `quote` and shell tag functions. Plain objects are formatted as `flags`.
+ */
+export type ShellTemplateArgument =
+  | ShellArgumentType
+  | Array<ShellArgumentType | ShellFragment>
+  | ShellFragment
+  | ShellFlags;
+
+/**
+ * Flags formatting options. See `flags`.
+ */
+export interface FlagsOptions {
+  /**
+   * Flag name prefix, e.g. `"-"` for `-name value` style.
+   *
+   * Default: `"--"`
+   */
+  prefix?: string;
+  /**
+   * Separator between flag name and its value. `" "` produces two separate arguments, `"="` produces a single
+   * `--name=value` argument.
+   *
+   * Default: `" "`
+   */
+  separator?: " " | "=";
+  /**
+   * How to handle array values. `"repeat"` repeats the flag for every value (`--tag a --tag b`), `"comma"` joins the
+   * values with a comma (`--tag a,b`).
+   *
+   * Default: `"repeat"`
+   */
+  arrays?: "repeat" | "comma";
+}
+
+/**
+ * Insert the string into a command as is, without any quoting. E.g.
  * ```
- * quote`foo ${[]} bar`
- * quote`foo ${[]}`
+ * quote`ls ${raw("*.log")} | wc -l`
  * ```
- * will be formatted as `foo bar` and `foo` respectively.
+ * Be careful, this is exactly the kind of thing the quoting protects you from. Not supported by `run`.
+ */
+export function raw(s: string): ShellFragment {
+  return new ShellFragment(() => s);
+}
+
+function flagsArgv(obj: ShellFlags, opt: FlagsOptions): string[] {
+  const prefix = opt.prefix ?? "--";
+  const argv: string[] = [];
+  for (const [name, value] of Object.entries(obj)) {
+    if (value === false || value === null || value === undefined) continue;
+    if (value === true) {
+      argv.push(prefix + name);
+      continue;
+    }
+    let values = Array.isArray(value) ? value.map(String) : [String(value)];
+    if (opt.arrays === "comma" && Array.isArray(value)) {
+      if (values.length === 0) continue;
+      values = [values.join(",")];
+    }
+    for (const v of values) {
+      if (opt.separator === "=") {
+        argv.push(`${prefix}${name}=${v}`);
+      } else {
+        argv.push(prefix + name, v);
+      }
+    }
+  }
+  return argv;
+}
+
+/**
+ * Format an object as command line flags. E.g.
+ * ```
+ * quote`cmd ${flags({ verbose: true, quiet: false, out: "a b", n: 3, tag: ["x", "y"] })}`
+ * ```
+ * produces `cmd --verbose --out 'a b' --n 3 --tag x --tag y`. See `FlagsOptions` for other styles. Passing a plain
+ * object as a template argument is the same as `flags(obj)`.
+ */
+export function flags(obj: ShellFlags, opt: FlagsOptions = {}): ShellFragment {
+  const argv = () => flagsArgv(obj, opt);
+  return new ShellFragment((dialect) => argv().map((v) => quoteStringFor(dialect, v)).join(" "), argv);
+}
+
+const envNameRE = /^[A-Za-z_][A-Za-z0-9_]*$/;
+
+/**
+ * Environment variable assignments prefixing a command. E.g.
+ * ```
+ * quote`${assign({ LANG: "C", GREETING: "hello world" })} make`
+ * ```
+ * produces `LANG=C GREETING='hello world' make`. Throws on invalid variable names. Not supported by PowerShell and
+ * `run`, use `env` option instead.
+ */
+export function assign(vars: Record<string, ShellArgumentType>): ShellFragment {
+  for (const name of Object.keys(vars)) {
+    if (!envNameRE.test(name)) throw new Error(`invalid environment variable name: ${JSON.stringify(name)}`);
+  }
+  return new ShellFragment((dialect) => {
+    if (dialect === "powershell") throw new Error("environment variable assignments are not supported by PowerShell");
+    return Object.entries(vars).map(([name, v]) => `${name}=${quoteStringFor(dialect, String(v))}`).join(" ");
+  });
+}
+
+const globTokenRE = /(\*+|\?|\[!?[A-Za-z0-9_.\-]+\])/;
+
+/**
+ * Glob pattern: `*`, `?` and simple bracket expressions (`[a-z]`, `[!0-9]`) are left for the shell to expand,
+ * everything else is quoted. E.g.
+ * ```
+ * quote`rm ${glob("my logs/*.log")}`
+ * ```
+ * produces `rm 'my logs/'*.log`. Not supported by `run`.
+ */
+export function glob(pattern: string): ShellFragment {
+  return new ShellFragment((dialect) =>
+    pattern.split(globTokenRE).map((v, i) => i % 2 ? v : v && quoteStringFor(dialect, v)).join("")
+  );
+}
+
+const secrets = new Set<string>();
+let secretsRE: RegExp | undefined;
+
+/**
+ * Register a secret value: all its occurrences are replaced with `***` by `redactSecrets`. Useful for secrets which
+ * are not passed via `secret`, e.g. environment variables. Empty values are ignored.
+ */
+export function registerSecret(value: string) {
+  if (!value || secrets.has(value)) return;
+  secrets.add(value);
+  secretsRE = undefined;
+}
+
+/**
+ * Replace all occurrences of registered secrets in the text with `***`.
  *
- * Examples:
+ * Results of the built-in executors have their `cmd` redacted already, printing functions redact the output.
+ */
+export function redactSecrets(text: string): string {
+  if (secrets.size === 0) return text;
+  if (!secretsRE) {
+    // longer ones first, quoted forms contain the values
+    const alternatives = [...secrets].sort((a, b) => b.length - a.length).map((v) =>
+      v.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    );
+    secretsRE = new RegExp(alternatives.join("|"), "g");
+  }
+  return text.replace(secretsRE, "***");
+}
+
+/**
+ * Replace all occurrences of the registered secrets in binary output with `***`, the secrets are matched by their
+ * UTF-8 encoding. Returns the same array when there is nothing to redact. See `redactSecrets`.
+ */
+export function redactSecretBytes(bytes: Uint8Array): Uint8Array {
+  if (secrets.size === 0) return bytes;
+  const encoder = new TextEncoder();
+  const patterns = [...secrets].sort((a, b) => b.length - a.length).map((v) => encoder.encode(v));
+  const mask = encoder.encode("***");
+  const matchesAt = (i: number, p: Uint8Array) => p.every((b, j) => bytes[i + j] === b);
+  const parts: Uint8Array[] = [];
+  let start = 0;
+  for (let i = 0; i < bytes.length;) {
+    const p = patterns.find((p) => i + p.length <= bytes.length && matchesAt(i, p));
+    if (!p) {
+      i++;
+      continue;
+    }
+    parts.push(bytes.subarray(start, i), mask);
+    i += p.length;
+    start = i;
+  }
+  if (parts.length === 0) return bytes;
+  parts.push(bytes.subarray(start));
+  const result = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    result.set(p, offset);
+    offset += p.length;
+  }
+  return result;
+}
+
+// Replace some special characters with their visible unicode counterparts.
+// See: https://en.wikipedia.org/wiki/C0_and_C1_control_codes
+//
+// formatShellResult uses this function unconditionally when printing the command.
+export function makeControlCharactersVisible(v: string): string {
+  return v.replace(/\n/g, "␊").replace(/\t/g, "␉").replace(/\r/g, "␍");
+}
+
+/**
+ * Secret argument, e.g. an API token. The command receives the real value, but it's replaced with `***` in `cmd` of
+ * the results, in errors and when printing (including the command output). E.g.
+ * ```
+ * const result = await sh`curl -H ${secret(`Authorization: Bearer ${token}`)} ${url}`;
+ * console.log(result.cmd); // curl -H *** https://...
+ * ```
  *
- * - ```
- *   const v = quote`ls -l ${"$foo"} ${31337}`;
- *   assertEquals(v, `ls -l '$foo' 31337`);
- *   ```
- * - ```
- *   const args = [5, true, "-v", "this is a sentence"];
- *   const v = quote`command ${args}`;
- *   assertEquals(v, `command 5 true -v 'this is a sentence'`);
- *   ```
+ * The value is registered globally for the lifetime of the program, see `registerSecret`.
+ */
+export function secret(value: string): ShellFragment {
+  registerSecret(value);
+  for (const dialect of ["posix", "zsh", "fish", "powershell"] as const) {
+    registerSecret(quoteStringFor(dialect, value));
+  }
+  return new ShellFragment((dialect) => quoteStringFor(dialect, value), () => [value]);
+}
+
+/**
+ * Signature of `quote` and the tag functions produced by `quoteFor`.
  */
-export function quote(pieces: TemplateStringsArray, ...args: Array<ShellArgumentType[] | ShellArgumentType>): string {
+export type QuoteFunction = (
+  pieces: TemplateStringsArray,
+  ...args: ShellTemplateArgument[]
+) => string;
+
+// Only plain objects are formatted as flags, anything else (`null`, a `Date`, a `URL`) is most likely a mistake.
+function asFlags(v: object | null): ShellFlags {
+  const proto = v === null ? undefined : Object.getPrototypeOf(v);
+  if (proto !== Object.prototype && proto !== null) {
+    const what = v === null ? "null" : proto?.constructor?.name ?? "object";
+    throw new Error(`unsupported command argument: ${what}, only plain objects are formatted as flags`);
+  }
+  return v as ShellFlags;
+}
+
+function quoteTemplate(dialect: QuoteDialect, pieces: TemplateStringsArray, args: ShellTemplateArgument[]): string {
+  const quoteArg = (v: ShellArgumentType | ShellFragment) =>
+    v instanceof ShellFragment ? v.format(dialect) : quoteStringFor(dialect, String(v));
   let result = pieces[0];
   let i = 0;
   for (; i < args.length; i++) {
     const a = args[i];
-    let isEmptyArrayArg = false;
+    let aarg: string;
     if (Array.isArray(a)) {
-      const aarg = a.map((v) => quoteString(String(v))).join(" ");
-      if (aarg.length === 0) {
-        isEmptyArrayArg = true;
-      } else {
-        result += aarg;
-      }
+      aarg = a.map(quoteArg).filter((v) => v.length > 0).join(" ");
+    } else if (a instanceof ShellFragment) {
+      aarg = a.format(dialect);
+    } else if (typeof a === "object") {
+      aarg = flags(asFlags(a)).format(dialect);
     } else {
-      result += quoteString(String(a));
+      aarg = quoteArg(a);
     }
+    // empty arrays and fragments are removed along with a space
+    const isEmpty = aarg.length === 0;
+    result += aarg;
     let p = pieces[i + 1];
-    if (isEmptyArrayArg) {
+    if (isEmpty) {
       if (p.length > 0 && p[0] === " ") {
         p = p.substring(1);
       } else if (result.length > 0 && result[result.length - 1] === " ") {
@@ -81,6 +372,58 @@ export function quote(pieces: TemplateStringsArray, ...args: Array<ShellArgument
   return result;
 }
 
+/**
+ * Process the template string making it suitable to be executed as a shell command.
+ *
+ * This is a tag function for JS template literals. All arguments are processed through `quoteString`. Non-string
+ * arguments are coerced to string first. Additionally this function works with arrays of arguments, each element
+ * in the array is coerced to string and processed via `quoteString` and then the results are joined with a
+ * space in-between.
+ *
+ * Fragments (`raw`, `flags`, `assign`, `glob`) are formatted according to their own rules, plain objects are
+ * formatted as `flags`.
+ *
+ * Empty arrays (and empty fragments) are handled in a special way sometimes resulting in spaces being removed. For
+ * example:
+ * ```
+ * quote`foo ${[]} bar`
+ * quote`foo ${[]}`
+ * ```
+ * will be formatted as `foo bar` and `foo` respectively.
+ *
+ * Examples:
+ *
+ * - ```
+ *   const v = quote`ls -l ${"$foo"} ${31337}`;
+ *   assertEquals(v, `ls -l '$foo' 31337`);
+ *   ```
+ * - ```
+ *   const args = [5, true, "-v", "this is a sentence"];
+ *   const v = quote`command ${args}`;
+ *   assertEquals(v, `command 5 true -v 'this is a sentence'`);
+ *   ```
+ * - ```
+ *   const v = quote`${assign({ LANG: "C" })} grep ${{ count: true, regexp: "a b" }} ${glob("*.txt")}`;
+ *   assertEquals(v, `LANG=C grep --count --regexp 'a b' *.txt`);
+ *   ```
+ */
+export function quote(pieces: TemplateStringsArray, ...args: ShellTemplateArgument[]): string {
+  return quoteTemplate("posix", pieces, args);
+}
+
+/**
+ * Produce a `quote` tag function for the given dialect. Arguments are processed through `quoteStringFor(dialect, ...)`,
+ * otherwise it works exactly like `quote`. E.g.
+ * ```
+ * const v = quoteFor("fish")`echo ${"back\\slash"}`;
+ * assertEquals(v, `echo 'back\\\\slash'`);
+ * ```
+ */
+export function quoteFor(dialect: QuoteDialect): QuoteFunction {
+  if (dialect === "posix") return quote;
+  return (pieces, ...args) => quoteTemplate(dialect, pieces, args);
+}
+
 /**
  * Result of a shell command execution.
  */
@@ -98,6 +441,16 @@ export interface ShellResult {
    * may vary.
    */
   elapsedMilliseconds: number;
+  /** Signal which terminated the command, `null` if the command exited on its own. */
+  signal?: Deno.Signal | null;
+  /** Whether the command was terminated because it exceeded `timeoutMs`, see `ShellOptions`. */
+  timedOut?: boolean;
+  /** Total amount of bytes written to stdout/stderr by the command, including truncated and redirected parts. */
+  outputBytes?: { stdout: number; stderr: number };
+  /** Whether stdout/stderr was truncated because of `maxOutputBytes`, see `ShellOptions`. */
+  truncated?: { stdout: boolean; stderr: boolean };
+  /** Files stdout/stderr were written to instead of keeping them in memory, see `stdoutFile` in `ShellOptions`. */
+  redirected?: { stdout?: string; stderr?: string };
   /**
    * Whether stdout/stderr trimming attempt was performed.
    */
@@ -121,12 +474,45 @@ export interface ShellResultBinary {
    * may vary.
    */
   elapsedMilliseconds: number;
+  /** Signal which terminated the command, `null` if the command exited on its own. */
+  signal?: Deno.Signal | null;
+  /** Whether the command was terminated because it exceeded `timeoutMs`, see `ShellOptions`. */
+  timedOut?: boolean;
+  /** Total amount of bytes written to stdout/stderr by the command, including truncated and redirected parts. */
+  outputBytes?: { stdout: number; stderr: number };
+  /** Whether stdout/stderr was truncated because of `maxOutputBytes`, see `ShellOptions`. */
+  truncated?: { stdout: boolean; stderr: boolean };
+  /**
+   * Byte offset in stdout/stderr where the discarded middle part of the output was, when both the beginning and the
+   * end of the output were kept, see `keepOutput` in `ShellOptions`. Text results have a visible marker there instead.
+   */
+  truncatedAt?: { stdout?: number; stderr?: number };
+  /** Files stdout/stderr were written to instead of keeping them in memory, see `stdoutFile` in `ShellOptions`. */
+  redirected?: { stdout?: string; stderr?: string };
   /**
    * Whether stdout/stderr trimming attempt was performed (irrelevant for binary output).
    */
   trimmed?: undefined;
 }
 
+/**
+ * Standard input source of a shell subprocess:
+ *
+ * - `string` or `Uint8Array` is passed as is, strings are encoded as UTF-8.
+ * - `ReadableStream<Uint8Array>` or `AsyncIterable<string | Uint8Array>` is streamed to the process as the data
+ *   becomes available.
+ * - `{ file: path }` streams the contents of the file.
+ * - `{ inherit: true }` lets the process read standard input of the current process, e.g. user's terminal for
+ *   interactive commands.
+ */
+export type ShellInput =
+  | string
+  | Uint8Array
+  | ReadableStream<Uint8Array>
+  | AsyncIterable<string | Uint8Array>
+  | { file: string | URL }
+  | { inherit: true };
+
 /**
  * Shell command execution options.
  */
@@ -143,6 +529,12 @@ export interface ShellOptions {
    * Default: `["-c"]`
    */
   shellArgs?: string[];
+  /**
+   * Quoting dialect used for template arguments, see `QuoteDialect`.
+   *
+   * Default: derived from `shell` via `dialectForShell`
+   */
+  dialect?: QuoteDialect;
   /**
    * Whether to trim textual stdout and stderr or not.
    *
@@ -150,105 +542,880 @@ export interface ShellOptions {
    */
   trim?: boolean;
   /**
-   * Environment variables to pass to the shell subprocess.
+   * Working directory of the shell subprocess.
+   *
+   * Default: `Deno.cwd()`
+   */
+  cwd?: string;
+  /**
+   * Environment variables to pass to the shell subprocess, on top of the inherited environment. Use `envUnset` to
+   * remove inherited variables.
    *
    * Default: `Deno.env.toObject()`
    */
   env?: { [index: string]: string };
   /**
-   * Standard input to pass to the shell subprocess.
+   * Environment variables to set on top of `env`, overriding variables with the same name. Useful for adding a few
+   * variables to a shared set of options.
+   *
+   * Default: `undefined`
+   */
+  envMerge?: { [index: string]: string };
+  /**
+   * Names of environment variables to remove from the environment passed to the shell subprocess. Applied after
+   * `env` and `envMerge`.
    *
    * Default: `undefined`
    */
-  stdin?: string | Uint8Array;
+  envUnset?: string[];
   /**
-   * AbortSignal to terminate the process in case of an emergency.
+   * Standard input to pass to the shell subprocess, see `ShellInput`. Streaming sources are written to the process
+   * concurrently with reading its output.
+   *
+   * Default: `undefined`
+   */
+  stdin?: ShellInput;
+  /**
+   * AbortSignal to terminate the process in case of an emergency. The process is terminated the same way as on
+   * timeout, see `killSignal` and `killGraceMs`.
    *
    * Default: `undefined`
    */
   signal?: AbortSignal;
+  /**
+   * Terminate the process if it runs longer than the specified amount of milliseconds. Such a result has `timedOut`
+   * set to `true`.
+   *
+   * Default: `undefined`
+   */
+  timeoutMs?: number;
+  /**
+   * Signal sent to the process on timeout or abort.
+   *
+   * Default: `"SIGTERM"`
+   */
+  killSignal?: Deno.Signal;
+  /**
+   * How many milliseconds to wait after sending `killSignal` before sending `SIGKILL` to the process.
+   *
+   * Default: `5000`
+   */
+  killGraceMs?: number;
+  /**
+   * Start the shell in its own process group (session) and deliver signals on timeout or abort to the whole group.
+   * This way processes started by the shell script are terminated along with the shell itself.
+   *
+   * Such a process no longer receives Ctrl-C from the terminal, the library terminates it on Ctrl-C instead (see
+   * ./interrupt.ts). It has no controlling terminal either, so commands prompting on the terminal (e.g. `sudo` or
+   * `ssh` asking for a password) don't work in it.
+   *
+   * Default: `true` for commands with `timeoutMs` or `signal` and for `spawnOpt`, `false` otherwise
+   */
+  processGroup?: boolean;
+  /**
+   * Callback invoked for every line of standard output as soon as it becomes available, while the command is still
+   * running. Lines are decoded as UTF-8 and passed without the line terminator, registered secrets are replaced with
+   * `***` (see `secret`). The output is still collected and returned as part of the result.
+   *
+   * Default: `undefined`
+   */
+  onStdoutLine?: (line: string) => void;
+  /**
+   * Callback invoked for every line of standard error output as soon as it becomes available, while the command is
+   * still running. See `onStdoutLine`.
+   *
+   * Default: `undefined`
+   */
+  onStderrLine?: (line: string) => void;
+  /**
+   * Pass standard output and standard error through to `Deno.stdout` and `Deno.stderr` as the data arrives. The output
+   * is still collected and returned as part of the result. If there are registered secrets (see `secret`), they are
+   * replaced with `***` and the output is passed through line by line.
+   *
+   * Default: `false`
+   */
+  tee?: boolean;
+  /**
+   * Limit how many bytes of standard output and standard error (each) are kept in memory. The rest is discarded
+   * according to `keepOutput` and the result is marked as `truncated`.
+   *
+   * Default: `undefined` (unlimited)
+   */
+  maxOutputBytes?: number;
+  /**
+   * Which part of the output to keep when it exceeds `maxOutputBytes`: the beginning, the end or both (half of the
+   * limit each). With both, text results have a `[... N bytes omitted ...]` line where the discarded part was, binary
+   * results have its offset in `truncatedAt`.
+   *
+   * Default: `"tail"`
+   */
+  keepOutput?: "head" | "tail" | "both";
+  /**
+   * Write standard output to a file instead of keeping it in memory. A path is opened for writing (and truncated),
+   * an already opened file is written to and left open. The result has `redirected` set accordingly.
+   *
+   * Default: `undefined`
+   */
+  stdoutFile?: string | URL | Deno.FsFile;
+  /**
+   * Write standard error output to a file instead of keeping it in memory. See `stdoutFile`.
+   *
+   * Default: `undefined`
+   */
+  stderrFile?: string | URL | Deno.FsFile;
+  /**
+   * Don't execute commands, print them and record them in the dry run log instead (see `dryRunLog`). Commands
+   * resolve with a synthetic result, see `DryRunOptions`. Applies to `shOpt`, `runOpt` (the quoted form of the
+   * arguments is printed) and `pipeOpt` (the whole pipeline is a single command, each stage gets the same result).
+   * `spawnOpt` throws, background commands can't be simulated.
+   *
+   * Default: the global dry run mode, see `setDryRun`
+   */
+  dryRun?: boolean | DryRunOptions;
+  /**
+   * Listener of the events of the commands executed by this tag function: start, output chunks and end, see
+   * ./events.ts. Global listeners (see `addShellEventListener`) receive them as well.
+   *
+   * Default: `undefined`
+   */
+  onEvent?: ShellEventListener;
 }
 
 /**
- * Generic definition of a shell tag function. Does not include .map() method.
+ * Synthetic result of a dry run command, the missing fields are the ones of a successful command without output.
  */
-export type PlainTagFunction<T> = (
-  pieces: TemplateStringsArray,
-  ...args: Array<ShellArgumentType[] | ShellArgumentType>
-) => Promise<T>;
+export interface DryRunResult {
+  code?: number;
+  stdout?: string;
+  stderr?: string;
+  signal?: Deno.Signal | null;
+}
 
 /**
- * Full set of parameters that allows you to customize shell tag function execution stages.
+ * Dry run options, see `dryRun` in `ShellOptions`.
  */
-export interface MapParameters<T, U> {
-  pre?: (cmd: string) => string;
-  post: (result: T) => U;
-  finalize?: () => void;
+export interface DryRunOptions {
+  /**
+   * Result the commands resolve with, a function allows different results for different commands.
+   *
+   * Default: `{ code: 0, stdout: "", stderr: "" }`
+   */
+  result?: DryRunResult | ((cmd: string) => DryRunResult);
+  /**
+   * Whether to print the commands as `⇒ cmd` lines (styled like `wrapWithSpinnerPrinter` in ./spinner.ts). A function
+   * receives the formatted line without the line terminator and prints it instead.
+   *
+   * Default: `true`
+   */
+  print?: boolean | ((line: string) => void);
+  /**
+   * Whether to use ANSI colors for the printed commands.
+   *
+   * Default: `true`
+   */
+  colors?: boolean;
 }
 
 /**
- * Generic definition of a shell tag function. Includes .map() method, which allows you to produce modified shell tag
- * functions. See `examples/nested_map.ts` and `examples/basic_usage.ts`.
+ * A command recorded in dry run mode, see `dryRunLog`.
+ */
+export interface DryRunEntry {
+  /** The command, fully quoted, with secrets redacted. */
+  cmd: string;
+  /** Working directory the command would run in, `undefined` means the current one. */
+  cwd?: string;
+  time: Date;
+}
+
+const dryRunEntries: DryRunEntry[] = [];
+
+/**
+ * Commands recorded in dry run mode so far (see `dryRun` in `ShellOptions`), in order of execution.
+ */
+export function dryRunLog(): readonly DryRunEntry[] {
+  return dryRunEntries;
+}
+
+/**
+ * Clear the dry run log, see `dryRunLog`.
+ */
+export function clearDryRunLog() {
+  dryRunEntries.length = 0;
+}
+
+let globalDryRun: boolean | DryRunOptions | undefined;
+
+/**
+ * Switch the whole program to dry run mode: commands of all the tag functions (`sh`, `run`, `pipe`, the ones made with
+ * `shOpt` etc.) are printed and recorded instead of being executed, unless their options set `dryRun` explicitly (see
+ * `dryRun` in `ShellOptions`). Background commands (`spawn`) and shell sessions (see ./session.ts) throw while the mode
+ * is on. `defaultConfig.dryRun` in ./action.ts is the same switch.
+ */
+export function setDryRun(dryRun: boolean | DryRunOptions | undefined) {
+  globalDryRun = dryRun;
+}
+
+/**
+ * The global dry run mode, see `setDryRun`.
+ */
+export function getDryRun(): boolean | DryRunOptions | undefined {
+  return globalDryRun;
+}
+
+/**
+ * Generic definition of a shell tag function. Does not include .map() method.
+ */
+export type PlainTagFunction<T> = (
+  pieces: TemplateStringsArray,
+  ...args: ShellTemplateArgument[]
+) => Promise<T>;
+
+/**
+ * Full set of parameters that allows you to customize shell tag function execution stages.
+ */
+export interface MapParameters<T, U> {
+  pre?: (cmd: string) => string;
+  /** Receives the result and the command as it was before `pre` modified it. */
+  post: (result: T, cmd: string) => U;
+  finalize?: () => void;
+}
+
+/**
+ * Generic definition of a shell tag function. Includes .map() method, which allows you to produce modified shell tag
+ * functions. See `examples/nested_map.ts` and `examples/basic_usage.ts`.
  */
 export interface TagFunction<T> extends PlainTagFunction<T> {
-  map<U>(post: ((result: T) => U) | MapParameters<T, U>): TagFunction<U>;
+  map<U>(post: ((result: T, cmd: string) => U) | MapParameters<T, U>): TagFunction<U>;
 }
 
 function wrapTagFunction<T>(
-  f: PlainTagFunction<T>,
+  format: QuoteFunction,
   exec: (cmd: string) => Promise<T>,
   finalizers: Array<(() => void) | undefined> = [],
 ): TagFunction<T> {
-  const ff = f as TagFunction<T>;
+  const ff = (async (pieces, ...args) => {
+    try {
+      return await exec(format(pieces, ...args));
+    } finally {
+      for (const f of finalizers) {
+        f?.();
+      }
+    }
+  }) as TagFunction<T>;
   ff.map = (arg) => {
     const p = typeof arg === "function" ? { post: arg } : arg;
-    const nestedExec = async (cmd: string) => p.post(await exec(p.pre ? p.pre(cmd) : cmd));
-    return wrapTagFunction(
-      async (...args) => {
+    const nestedExec = async (cmd: string) => p.post(await exec(p.pre ? p.pre(cmd) : cmd), cmd);
+    return wrapTagFunction(format, nestedExec, [...finalizers, p.finalize]);
+  };
+  return ff;
+}
+
+/**
+ * Produce a shell tag function from a function executing quoted commands.
+ *
+ * Useful for building custom executors, the resulting tag function performs quoting and supports `.map()` the same
+ * way as the built-in ones. Template arguments are quoted according to `dialect`.
+ */
+export function makeTagFunction<T>(exec: (cmd: string) => Promise<T>, dialect: QuoteDialect = "posix"): TagFunction<T> {
+  return wrapTagFunction(quoteFor(dialect), exec);
+}
+
+interface OutputConsumer {
+  write(chunk: Uint8Array): void;
+  flush?(): void;
+}
+
+function lineSplitter(onLine: (line: string) => void): OutputConsumer {
+  const td = new TextDecoder();
+  let buf = "";
+  return {
+    write: (chunk) => {
+      buf += td.decode(chunk, { stream: true });
+      let i;
+      while ((i = buf.indexOf("\n")) !== -1) {
+        onLine(buf.substring(0, i).replace(/\r$/, ""));
+        buf = buf.substring(i + 1);
+      }
+    },
+    flush: () => {
+      buf += td.decode();
+      if (buf) onLine(buf.replace(/\r$/, ""));
+      buf = "";
+    },
+  };
+}
+
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  const result = new Uint8Array(length);
+  let offset = 0;
+  for (const c of chunks) {
+    result.set(c, offset);
+    offset += c.byteLength;
+  }
+  return result;
+}
+
+interface SyncWriter {
+  writeSync(p: Uint8Array): number;
+}
+
+// Registered secrets are redacted line by line, so that a secret split between chunks is found as well. Without any
+// secrets the data is passed through as is, right away.
+function passThrough(w: SyncWriter): OutputConsumer {
+  const te = new TextEncoder();
+  const td = new TextDecoder();
+  let pending = new Uint8Array();
+  const put = (data: Uint8Array) => {
+    for (let n = 0; n < data.byteLength;) {
+      n += w.writeSync(data.subarray(n));
+    }
+  };
+  const putRedacted = (lines: Uint8Array) => put(te.encode(redactSecrets(td.decode(lines))));
+  return {
+    write: (chunk) => {
+      if (secrets.size === 0 && pending.byteLength === 0) return put(chunk);
+      const data = concatChunks([pending, chunk], pending.byteLength + chunk.byteLength);
+      const end = data.lastIndexOf(10) + 1;
+      pending = data.slice(end);
+      if (end > 0) putRedacted(data.subarray(0, end));
+    },
+    flush: () => {
+      if (pending.byteLength > 0) putRedacted(pending);
+      pending = new Uint8Array();
+    },
+  };
+}
+
+function outputConsumers(
+  onLine: ((line: string) => void) | undefined,
+  tee: SyncWriter | undefined,
+  onChunk?: (chunk: Uint8Array) => void,
+) {
+  const consumers: OutputConsumer[] = [];
+  if (tee) consumers.push(passThrough(tee));
+  if (onLine) consumers.push(lineSplitter((line) => onLine(redactSecrets(line))));
+  if (onChunk) consumers.push({ write: onChunk });
+  return consumers;
+}
+
+// Which part of the output to keep in memory.
+interface OutputLimit {
+  maxBytes: number;
+  keep: "head" | "tail" | "both";
+}
+
+// Collected output of a running process. Chunks are passed to the consumers as they arrive and can be followed from
+// the very beginning (of what's kept in memory) by any number of readers.
+interface OutputBuffer {
+  length: number;
+  done: boolean;
+  truncated(): boolean;
+  // offset of the discarded part when both the beginning and the end are kept
+  truncatedAt(): number | undefined;
+  push(chunk: Uint8Array): void;
+  end(): void;
+  bytes(): Uint8Array;
+  follow(): AsyncGenerator<Uint8Array>;
+}
+
+interface OutputFollower {
+  chunks: Uint8Array[];
+  wakeup?: () => void;
+}
+
+function outputBuffer(consumers: OutputConsumer[], limit?: OutputLimit): OutputBuffer {
+  const maxBytes = limit ? Math.max(0, limit.maxBytes) : Infinity;
+  const headMax = limit?.keep === "tail" ? 0 : limit?.keep === "both" ? Math.ceil(maxBytes / 2) : maxBytes;
+  const tailMax = maxBytes - headMax;
+  const head: Uint8Array[] = [];
+  let headLength = 0;
+  const tail: Uint8Array[] = [];
+  let tailLength = 0;
+  const retain = (chunk: Uint8Array) => {
+    if (headLength < headMax) {
+      const part = chunk.subarray(0, headMax - headLength);
+      head.push(part);
+      headLength += part.byteLength;
+      chunk = chunk.subarray(part.byteLength);
+    }
+    if (chunk.byteLength === 0 || tailMax === 0) return;
+    tail.push(chunk);
+    tailLength += chunk.byteLength;
+    while (tailLength - tail[0].byteLength >= tailMax) {
+      tailLength -= tail.shift()!.byteLength;
+    }
+  };
+  // the first tail chunk may stick out of the limit
+  const tailChunks = () => {
+    const excess = tailLength - tailMax;
+    return excess > 0 ? [tail[0].subarray(excess), ...tail.slice(1)] : tail;
+  };
+  const followers = new Set<OutputFollower>();
+  const b: OutputBuffer = {
+    length: 0,
+    done: false,
+    truncated: () => b.length > headLength + Math.min(tailLength, tailMax),
+    truncatedAt: () => headMax > 0 && tailMax > 0 && b.truncated() ? headLength : undefined,
+    push: (chunk) => {
+      retain(chunk);
+      b.length += chunk.byteLength;
+      for (const c of consumers) c.write(chunk);
+      for (const f of followers) {
+        f.chunks.push(chunk);
+        f.wakeup?.();
+      }
+    },
+    end: () => {
+      for (const c of consumers) c.flush?.();
+      b.done = true;
+      for (const f of followers) f.wakeup?.();
+    },
+    bytes: () => {
+      const chunks = [...head, ...tailChunks()];
+      return concatChunks(chunks, chunks.reduce((n, c) => n + c.byteLength, 0));
+    },
+    follow: () => {
+      // start following right away, not when the reader asks for the first chunk
+      const f: OutputFollower = { chunks: [...head, ...tailChunks()] };
+      followers.add(f);
+      return (async function* () {
         try {
-          const q = quote(...args);
-          return p.post(await exec(p.pre ? p.pre(q) : q));
-        } finally {
-          for (const f of finalizers) {
-            f?.();
+          while (true) {
+            while (f.chunks.length > 0) yield f.chunks.shift()!;
+            if (b.done) return;
+            await new Promise<void>((resolve) => f.wakeup = resolve);
+            f.wakeup = undefined;
           }
-          p.finalize?.();
+        } finally {
+          followers.delete(f);
+        }
+      })();
+    },
+  };
+  return b;
+}
+
+async function writeAll(file: Deno.FsFile, chunk: Uint8Array) {
+  for (let n = 0; n < chunk.byteLength;) {
+    n += await file.write(chunk.subarray(n));
+  }
+}
+
+// Read the stream till the end, collecting the chunks into the buffer and writing them to the file if any.
+async function collectStream(stream: ReadableStream<Uint8Array>, buf: OutputBuffer, file?: Deno.FsFile) {
+  try {
+    for await (const chunk of stream) {
+      buf.push(chunk);
+      if (file) await writeAll(file, chunk);
+    }
+  } finally {
+    buf.end();
+  }
+}
+
+function shellEnv(opt: ShellOptions): { [index: string]: string } {
+  const env = { ...Deno.env.toObject(), ...opt.env, ...opt.envMerge };
+  for (const name of opt.envUnset ?? []) {
+    delete env[name];
+  }
+  return env;
+}
+
+// See `processGroup` in `ShellOptions`.
+function inProcessGroup(opt: ShellOptions): boolean {
+  return opt.processGroup ?? (opt.timeoutMs !== undefined || opt.signal !== undefined);
+}
+
+function killProcess(cp: Deno.ChildProcess, signal: Deno.Signal, group: boolean) {
+  if (group) {
+    try {
+      Deno.kill(-cp.pid, signal);
+      return;
+    } catch {
+      // the process group is gone or the process is not a group leader, fall back to signaling the process itself
+    }
+  }
+  try {
+    cp.kill(signal);
+  } catch {
+    // the process has already exited
+  }
+}
+
+interface Terminator {
+  terminate(): void;
+  kill(signal: Deno.Signal): void;
+  dispose(): void;
+}
+
+// Send the kill signal to the process and escalate to SIGKILL if it's still alive after the grace period.
+function processTerminator(cp: Deno.ChildProcess, opt: ShellOptions): Terminator {
+  const group = inProcessGroup(opt);
+  let graceTimeout: number | undefined;
+  let terminated = false;
+  return {
+    terminate: () => {
+      if (terminated) return;
+      terminated = true;
+      killProcess(cp, opt.killSignal ?? "SIGTERM", group);
+      graceTimeout = setTimeout(() => killProcess(cp, "SIGKILL", group), opt.killGraceMs ?? 5000);
+    },
+    kill: (signal) => killProcess(cp, signal, group),
+    dispose: () => {
+      // the process has exited, nothing to terminate anymore
+      terminated = true;
+      clearTimeout(graceTimeout);
+    },
+  };
+}
+
+// processes started by this module which haven't exited yet, see `terminateRunningProcesses`
+const runningProcesses = new Map<Terminator, Promise<Deno.CommandStatus>>();
+
+/**
+ * Terminate all the running commands the same way as on timeout (see `killSignal` and `killGraceMs` in
+ * `ShellOptions`), the promise resolves when they have exited. Used on Ctrl-C, see ./interrupt.ts.
+ */
+export async function terminateRunningProcesses(): Promise<void> {
+  const running = [...runningProcesses];
+  for (const [terminator] of running) terminator.terminate();
+  await Promise.allSettled(running.map(([, status]) => status));
+}
+
+/**
+ * Send the signal to all the running commands (to their process groups, see `processGroup` in `ShellOptions`) right
+ * away, without waiting for them to exit. Used on the second Ctrl-C, see ./interrupt.ts.
+ */
+export function killAllRunning(signal: Deno.Signal) {
+  for (const terminator of runningProcesses.keys()) terminator.kill(signal);
+}
+
+interface RunningProcess {
+  child: Deno.ChildProcess;
+  stdout: OutputBuffer;
+  stderr: OutputBuffer;
+  terminate(): void;
+  result: Promise<ShellResultBinary>;
+}
+
+// Streams connecting the process to other processes or JS code, used for pipelines.
+interface ProcessStreams {
+  // Read standard input from the stream instead of `stdin` option.
+  stdin?: ReadableStream<Uint8Array>;
+  // Write standard output to the stream instead of collecting it.
+  stdout?: WritableStream<Uint8Array>;
+}
+
+// Pump the data between streams. Errors mean one of the sides went away, e.g. the process exited without reading all
+// of its input, which is normal for pipelines.
+async function pumpStream(
+  from: ReadableStream<Uint8Array>,
+  to: WritableStream<Uint8Array>,
+  signal?: AbortSignal,
+): Promise<void> {
+  try {
+    await from.pipeTo(to, { signal });
+  } catch {
+    // see above
+  }
+}
+
+// Pass the data through, reporting the error if the stream fails.
+function watchStream(rs: ReadableStream<Uint8Array>, onError: (err: unknown) => void): ReadableStream<Uint8Array> {
+  const reader = rs.getReader();
+  let cancelled = false;
+  return new ReadableStream({
+    pull: async (c) => {
+      let chunk: ReadableStreamReadResult<Uint8Array>;
+      try {
+        chunk = await reader.read();
+      } catch (err) {
+        if (!cancelled) {
+          onError(err);
+          c.error(err);
         }
-      },
-      nestedExec,
-      [...finalizers, p.finalize],
+        return;
+      }
+      if (cancelled) return;
+      if (chunk.done) {
+        c.close();
+      } else {
+        c.enqueue(chunk.value);
+      }
+    },
+    cancel: (reason) => {
+      cancelled = true;
+      return reader.cancel(reason);
+    },
+  });
+}
+
+function isInheritedInput(v: ShellInput | undefined): v is { inherit: true } {
+  return typeof v === "object" && "inherit" in v && v.inherit;
+}
+
+async function* fileChunks(path: string | URL): AsyncGenerator<Uint8Array> {
+  const f = await Deno.open(path);
+  yield* f.readable;
+}
+
+async function* encodeChunks(it: AsyncIterable<string | Uint8Array>): AsyncGenerator<Uint8Array> {
+  const te = new TextEncoder();
+  for await (const v of it) {
+    yield typeof v === "string" ? te.encode(v) : v;
+  }
+}
+
+function inputStream(v: ShellInput | undefined): ReadableStream<Uint8Array> | undefined {
+  if (v === undefined) return undefined;
+  if (typeof v === "string") return ReadableStream.from([new TextEncoder().encode(v)]);
+  if (v instanceof Uint8Array) return ReadableStream.from([v]);
+  if (v instanceof ReadableStream) return v;
+  if ("file" in v) return ReadableStream.from(fileChunks(v.file));
+  if ("inherit" in v) return Deno.stdin.readable;
+  return ReadableStream.from(encodeChunks(v));
+}
+
+interface OutputFile {
+  file: Deno.FsFile;
+  name: string;
+  // whether the file was opened by us and has to be closed
+  owned: boolean;
+}
+
+function openOutputFile(f: string | URL | Deno.FsFile | undefined): OutputFile | undefined {
+  if (f === undefined) return undefined;
+  if (f instanceof Deno.FsFile) return { file: f, name: "file", owned: false };
+  return { file: Deno.openSync(f, { write: true, create: true, truncate: true }), name: String(f), owned: true };
+}
+
+// When `argv` is given, the program is executed directly and `cmd` is used for display purposes only.
+function startProcess(opt: ShellOptions, cmd: string, streams?: ProcessStreams, argv?: string[]): RunningProcess {
+  const t0 = Date.now();
+  const stdoutFile = openOutputFile(opt.stdoutFile);
+  let stderrFile: OutputFile | undefined;
+  try {
+    stderrFile = openOutputFile(opt.stderrFile);
+  } catch (err) {
+    if (stdoutFile?.owned) stdoutFile.file.close();
+    throw err;
+  }
+  const p = new Deno.Command(argv ? argv[0] : opt.shell ?? "/bin/bash", {
+    args: argv ? argv.slice(1) : [...(opt.shellArgs ?? ["-c"]), cmd],
+    stdin: !streams?.stdin && isInheritedInput(opt.stdin) ? "inherit" : "piped",
+    stderr: "piped",
+    stdout: "piped",
+    cwd: opt.cwd,
+    env: shellEnv(opt),
+    clearEnv: true,
+    detached: inProcessGroup(opt),
+  });
+  const cp = p.spawn();
+  const events = hasShellEventListeners(opt.onEvent);
+  const id = nextCommandId();
+  const cwd = opt.cwd ?? Deno.cwd();
+  if (events) {
+    emitShellEvent(
+      { type: "commandStart", time: new Date(), id, cmd: redactSecrets(cmd), pid: cp.pid, cwd },
+      opt.onEvent,
     );
+  }
+  const onChunk = (stream: "stdout" | "stderr") =>
+    events
+      ? (chunk: Uint8Array) =>
+        emitShellEvent(
+          { type: "commandOutput", time: new Date(), id, pid: cp.pid, stream, bytes: chunk.length },
+          opt.onEvent,
+        )
+      : undefined;
+  const limit: OutputLimit | undefined = opt.maxOutputBytes !== undefined
+    ? { maxBytes: opt.maxOutputBytes, keep: opt.keepOutput ?? "tail" }
+    : undefined;
+  const nothing: OutputLimit = { maxBytes: 0, keep: "head" };
+  const stdout = outputBuffer(
+    outputConsumers(opt.onStdoutLine, opt.tee ? Deno.stdout : undefined, onChunk("stdout")),
+    stdoutFile ? nothing : limit,
+  );
+  const stderr = outputBuffer(
+    outputConsumers(opt.onStderrLine, opt.tee ? Deno.stderr : undefined, onChunk("stderr")),
+    stderrFile ? nothing : limit,
+  );
+  const terminator = processTerminator(cp, opt);
+  runningProcesses.set(terminator, cp.status);
+  // Ctrl-C doesn't reach processes in their own group, they have to be terminated by us
+  const stopInterruptHandling = inProcessGroup(opt)
+    ? onInterrupt(() => {
+      terminator.terminate();
+      return cp.status;
+    })
+    : undefined;
+  let timedOut = false;
+  const timeoutId = opt.timeoutMs !== undefined
+    ? setTimeout(() => {
+      timedOut = true;
+      terminator.terminate();
+    }, opt.timeoutMs)
+    : undefined;
+  const onAbort = () => terminator.terminate();
+  opt.signal?.addEventListener("abort", onAbort);
+  if (opt.signal?.aborted) onAbort();
+  const result = (async (): Promise<ShellResultBinary> => {
+    try {
+      let stdinDone: Promise<void> | undefined;
+      let inputError: { err: unknown } | undefined;
+      // there is no point in writing standard input once the process exits
+      const stdinAbort = new AbortController();
+      if (streams?.stdin) {
+        stdinDone = pumpStream(streams.stdin, cp.stdin, stdinAbort.signal);
+      } else if (!isInheritedInput(opt.stdin)) {
+        const input = inputStream(opt.stdin);
+        if (input) {
+          // the process simply sees the end of input if the source fails, the error is reported once it exits
+          stdinDone = pumpStream(watchStream(input, (err) => inputError = { err }), cp.stdin, stdinAbort.signal);
+        } else {
+          await cp.stdin.close();
+        }
+      }
+      const stdoutDone = streams?.stdout
+        ? pumpStream(cp.stdout, streams.stdout).finally(() => stdout.end())
+        : collectStream(cp.stdout, stdout, stdoutFile?.file);
+      const [, , status] = await Promise.all([
+        stdoutDone,
+        collectStream(cp.stderr, stderr, stderrFile?.file),
+        cp.status,
+      ]);
+      stdinAbort.abort();
+      await stdinDone;
+      if (events) {
+        emitShellEvent({
+          type: "commandEnd",
+          time: new Date(),
+          id,
+          cmd: redactSecrets(cmd),
+          pid: cp.pid,
+          cwd,
+          elapsedMilliseconds: Date.now() - t0,
+          code: status.code,
+          signal: status.signal,
+          timedOut,
+          outputBytes: { stdout: stdout.length, stderr: stderr.length },
+        }, opt.onEvent);
+      }
+      if (inputError) throw inputError.err;
+      return {
+        code: status.code,
+        stdout: stdout.bytes(),
+        stderr: stderr.bytes(),
+        cmd: redactSecrets(cmd),
+        elapsedMilliseconds: Date.now() - t0,
+        signal: status.signal,
+        timedOut,
+        outputBytes: { stdout: stdout.length, stderr: stderr.length },
+        truncated: { stdout: !stdoutFile && stdout.truncated(), stderr: !stderrFile && stderr.truncated() },
+        ...(stdout.truncatedAt() !== undefined || stderr.truncatedAt() !== undefined
+          ? { truncatedAt: { stdout: stdout.truncatedAt(), stderr: stderr.truncatedAt() } }
+          : {}),
+        redirected: stdoutFile || stderrFile ? { stdout: stdoutFile?.name, stderr: stderrFile?.name } : undefined,
+      };
+    } finally {
+      if (stdoutFile?.owned) stdoutFile.file.close();
+      if (stderrFile?.owned) stderrFile.file.close();
+      clearTimeout(timeoutId);
+      opt.signal?.removeEventListener("abort", onAbort);
+      terminator.dispose();
+      runningProcesses.delete(terminator);
+      stopInterruptHandling?.();
+    }
+  })();
+  return { child: cp, stdout, stderr, terminate: terminator.terminate, result };
+}
+
+function quoteOpt(opt: ShellOptions): QuoteFunction {
+  return quoteFor(opt.dialect ?? dialectForShell(opt.shell ?? "/bin/bash"));
+}
+
+function dryRunExec(opt: ShellOptions, dr: DryRunOptions): (cmd: string) => Promise<ShellResultBinary> {
+  const te = new TextEncoder();
+  const write = (line: string) => Deno.stdout.writeSync(te.encode(line + "\n"));
+  return (cmd: string): Promise<ShellResultBinary> => {
+    const redacted = redactSecrets(cmd);
+    const events = hasShellEventListeners(opt.onEvent);
+    const id = nextCommandId();
+    const cwd = opt.cwd ?? Deno.cwd();
+    if (events) {
+      emitShellEvent(
+        { type: "commandStart", time: new Date(), id, cmd: redacted, pid: 0, cwd, dryRun: true },
+        opt.onEvent,
+      );
+    }
+    dryRunEntries.push({ cmd: redacted, cwd: opt.cwd, time: new Date() });
+    if (dr.print !== false) {
+      const arrow = (dr.colors ?? true) ? bold(brightWhite("⇒ ")) : "⇒ ";
+      (typeof dr.print === "function" ? dr.print : write)(arrow + makeControlCharactersVisible(redacted));
+    }
+    const r = typeof dr.result === "function" ? dr.result(cmd) : dr.result;
+    const stdout = te.encode(r?.stdout ?? "");
+    const stderr = te.encode(r?.stderr ?? "");
+    if (events) {
+      emitShellEvent({
+        type: "commandEnd",
+        time: new Date(),
+        id,
+        cmd: redacted,
+        pid: 0,
+        cwd,
+        elapsedMilliseconds: 0,
+        code: r?.code ?? 0,
+        signal: r?.signal ?? null,
+        timedOut: false,
+        outputBytes: { stdout: stdout.length, stderr: stderr.length },
+        dryRun: true,
+      }, opt.onEvent);
+    }
+    return Promise.resolve({
+      code: r?.code ?? 0,
+      stdout,
+      stderr,
+      cmd: redacted,
+      elapsedMilliseconds: 0,
+      signal: r?.signal ?? null,
+      timedOut: false,
+      outputBytes: { stdout: stdout.length, stderr: stderr.length },
+      truncated: { stdout: false, stderr: false },
+    });
   };
-  return ff;
+}
+
+// The dry run executor when the mode is enabled, see `dryRun` in `ShellOptions` and `setDryRun`. Resolved for every
+// command, the global mode can change after a tag function is made.
+function dryRunExecOpt(opt: ShellOptions): ((cmd: string) => Promise<ShellResultBinary>) | undefined {
+  const dryRun = opt.dryRun ?? globalDryRun;
+  return dryRun ? dryRunExec(opt, dryRun === true ? {} : dryRun) : undefined;
 }
 
 function execOpt(opt: ShellOptions): (cmd: string) => Promise<ShellResultBinary> {
-  return async (cmd: string): Promise<ShellResultBinary> => {
-    const t0 = Date.now();
-    const p = new Deno.Command(opt.shell ?? "/bin/bash", {
-      args: [...(opt.shellArgs ?? ["-c"]), cmd],
-      stdin: "piped",
-      stderr: "piped",
-      stdout: "piped",
-      env: opt.env ?? Deno.env.toObject(),
-      signal: opt.signal,
-    });
-    const cp = p.spawn();
-    if (opt.stdin !== undefined) {
-      const stdinBuf = typeof opt.stdin === "string" ? new TextEncoder().encode(opt.stdin) : opt.stdin;
-      const w = cp.stdin.getWriter();
-      await w.write(stdinBuf);
-      w.releaseLock();
-    }
-    await cp.stdin.close();
-    const output = await cp.output();
-    return {
-      code: output.code,
-      stdout: output.stdout,
-      stderr: output.stderr,
-      cmd,
-      elapsedMilliseconds: Date.now() - t0,
-    };
+  return (cmd: string): Promise<ShellResultBinary> => {
+    const dryRun = dryRunExecOpt(opt);
+    return dryRun ? dryRun(cmd) : startProcess(opt, cmd).result;
+  };
+}
+
+function binaryToText(result: ShellResultBinary, shouldTrim: boolean): ShellResult {
+  const td = new TextDecoder();
+  const { truncatedAt, ...rest } = result;
+  // the two parts of the output around the discarded one are decoded separately, a character may be cut at both ends
+  const decode = (stream: "stdout" | "stderr") => {
+    const v = result[stream];
+    const at = truncatedAt?.[stream];
+    if (at === undefined) return td.decode(v);
+    const omitted = (result.outputBytes?.[stream] ?? v.byteLength) - v.byteLength;
+    return `${td.decode(v.subarray(0, at))}\n[... ${omitted} bytes omitted ...]\n${td.decode(v.subarray(at))}`;
+  };
+  return {
+    ...rest,
+    stdout: trimMaybe(decode("stdout"), shouldTrim),
+    stderr: trimMaybe(decode("stderr"), shouldTrim),
+    trimmed: shouldTrim,
   };
 }
 
@@ -281,22 +1448,13 @@ export function shOpt(
   output?: "binary" | "utf-8",
 ): TagFunction<ShellResult | ShellResultBinary> {
   const exec = execOpt(opt);
+  const q = quoteOpt(opt);
   if (output === "binary") {
-    return wrapTagFunction((pieces, ...args) => exec(quote(pieces, ...args)), exec);
+    return wrapTagFunction(q, exec);
   }
 
-  const binaryToText = (result: ShellResultBinary): ShellResult => {
-    const shouldTrim = opt.trim ?? true;
-    const td = new TextDecoder();
-    return {
-      ...result,
-      stdout: trimMaybe(td.decode(result.stdout), shouldTrim),
-      stderr: trimMaybe(td.decode(result.stderr), shouldTrim),
-      trimmed: shouldTrim,
-    };
-  };
-  const textExec = async (cmd: string) => binaryToText(await exec(cmd));
-  return wrapTagFunction(async (pieces, ...args) => await textExec(quote(pieces, ...args)), textExec);
+  const textExec = async (cmd: string) => binaryToText(await exec(cmd), opt.trim ?? true);
+  return wrapTagFunction(q, textExec);
 }
 
 /**
@@ -329,6 +1487,7 @@ export function shOpt(
  *   shell: "/bin/bash",
  *   shellArgs: ["-c"],
  *   trim: true,
+ *   cwd: Deno.cwd(),
  *   env: Deno.env.toObject(),
  *   stdin: undefined,
  * })`ls -l`;
@@ -336,3 +1495,573 @@ export function shOpt(
  * ```
  */
 export const sh: TagFunction<ShellResult> = shOpt({});
+
+// Split template into arguments: literal parts are split on whitespace, each interpolated value becomes exactly one
+// argument (or several for arrays) glued to the adjacent literal text, just like the words produced by `quote`.
+function templateArgv(pieces: TemplateStringsArray, args: ShellTemplateArgument[]): string[] {
+  const argv: string[] = [];
+  let word: string | undefined;
+  const flush = () => {
+    if (word !== undefined) argv.push(word);
+    word = undefined;
+  };
+  const literal = (s: string) => {
+    for (const part of s.split(/(\s+)/)) {
+      if (/^\s+$/.test(part)) {
+        flush();
+      } else if (part) {
+        word = (word ?? "") + part;
+      }
+    }
+  };
+  literal(pieces[0]);
+  for (let i = 0; i < args.length; i++) {
+    const a = args[i];
+    const values = (Array.isArray(a) ? a : [a]).flatMap((v) => {
+      if (v instanceof ShellFragment) {
+        if (!v.argv) throw new Error("shell fragment is not supported in direct execution mode");
+        return v.argv();
+      }
+      return typeof v === "object" ? flagsArgv(asFlags(v), {}) : [String(v)];
+    });
+    values.forEach((v, j) => {
+      if (j > 0) flush();
+      word = (word ?? "") + String(v);
+    });
+    literal(pieces[i + 1]);
+  }
+  flush();
+  return argv;
+}
+
+// Parse a command produced by `quote`-ing the arguments back into the arguments. Understands single quotes, double
+// quotes and backslash escapes, nothing else has a special meaning.
+function splitArgs(cmd: string): string[] {
+  const argv: string[] = [];
+  let word: string | undefined;
+  for (let i = 0; i < cmd.length; i++) {
+    const c = cmd[i];
+    if (c === "'") {
+      const end = cmd.indexOf("'", i + 1);
+      if (end === -1) throw new Error(`unterminated single quote in command: ${cmd}`);
+      word = (word ?? "") + cmd.substring(i + 1, end);
+      i = end;
+    } else if (c === '"') {
+      let v = "";
+      for (i++; i < cmd.length && cmd[i] !== '"'; i++) {
+        if (cmd[i] === "\\" && i + 1 < cmd.length && '"\\$`'.includes(cmd[i + 1])) i++;
+        v += cmd[i];
+      }
+      if (i >= cmd.length) throw new Error(`unterminated double quote in command: ${cmd}`);
+      word = (word ?? "") + v;
+    } else if (c === "\\" && i + 1 < cmd.length) {
+      word = (word ?? "") + cmd[++i];
+    } else if (/\s/.test(c)) {
+      if (word !== undefined) argv.push(word);
+      word = undefined;
+    } else {
+      word = (word ?? "") + c;
+    }
+  }
+  if (word !== undefined) argv.push(word);
+  return argv;
+}
+
+function formatArgv(pieces: TemplateStringsArray, ...args: ShellTemplateArgument[]): string {
+  return templateArgv(pieces, args).map(quoteString).join(" ");
+}
+
+function execArgvOpt(opt: ShellOptions): (cmd: string) => Promise<ShellResultBinary> {
+  return (cmd: string): Promise<ShellResultBinary> => {
+    const dryRun = dryRunExecOpt(opt);
+    if (dryRun) return dryRun(cmd);
+    const argv = splitArgs(cmd);
+    if (argv.length === 0) return Promise.reject(new Error("cannot execute an empty command"));
+    return startProcess(opt, cmd, undefined, argv).result;
+  };
+}
+
+/**
+ * Produce a tag function executing programs directly, without a shell. See `run` for details.
+ *
+ * The output is decoded as utf-8 and returned as a string.
+ */
+export function runOpt(opt: ShellOptions, output?: "utf-8"): TagFunction<ShellResult>;
+/**
+ * Produce a tag function executing programs directly, without a shell. See `run` for details.
+ *
+ * The output is returned as is.
+ */
+export function runOpt(opt: ShellOptions, output: "binary"): TagFunction<ShellResultBinary>;
+/**
+ * Produce a tag function executing programs directly, without a shell. See `run` for details.
+ *
+ * This is the overloaded implementaion exported as is for reuse.
+ */
+export function runOpt(opt: ShellOptions, output?: "binary" | "utf-8"): TagFunction<ShellResult | ShellResultBinary>;
+export function runOpt(
+  opt: ShellOptions,
+  output?: "binary" | "utf-8",
+): TagFunction<ShellResult | ShellResultBinary> {
+  const exec = execArgvOpt(opt);
+  if (output === "binary") {
+    return wrapTagFunction(formatArgv, exec);
+  }
+
+  const textExec = async (cmd: string) => binaryToText(await exec(cmd), opt.trim ?? true);
+  return wrapTagFunction(formatArgv, textExec);
+}
+
+/**
+ * Default direct executing tag function. Works like `sh`, but the program is executed directly via `Deno.Command`,
+ * there is no shell involved. `shell` and `shellArgs` options are ignored.
+ *
+ * The literal parts of the template are split on whitespace, each interpolated value becomes exactly one argument
+ * regardless of its contents. E.g.
+ * ```
+ * const msg = "it's $HOME; rm -rf /";
+ * await run`git commit -m ${msg}`;
+ * ```
+ * executes `git` with arguments `commit`, `-m` and `it's $HOME; rm -rf /`. Array elements become separate arguments.
+ * Values are glued to the adjacent literal text, e.g. `--name=${name}` is a single argument.
+ *
+ * Shell syntax (pipes, redirections, variables, globs, quotes) has no special meaning in the literal parts. The
+ * `cmd` of the result is the quoted form of the arguments, `.map()` pre hooks receive and return commands in that
+ * form as well.
+ */
+export const run: TagFunction<ShellResult> = runOpt({});
+
+/**
+ * Handle of a shell command running in the background. See `spawnOpt`.
+ *
+ * Supports `await using` declarations, the command is terminated and awaited when the handle goes out of scope.
+ */
+export interface ShellProcess<T> extends AsyncDisposable {
+  /** Process ID of the shell subprocess. */
+  readonly pid: number;
+  /** Quoted command being executed. */
+  readonly cmd: string;
+  /**
+   * Send a signal to the command (to its process group, see `processGroup` in `ShellOptions`). Without arguments the
+   * command is terminated the same way as on timeout, see `killSignal` and `killGraceMs` in `ShellOptions`.
+   */
+  kill(signal?: Deno.Signal): void;
+  /** Wait for the command to finish and return its result. */
+  wait(): Promise<T>;
+  /**
+   * Live output of the command. The stream starts from the very beginning of the output and ends when the command
+   * closes it. Every call produces a new independent stream.
+   */
+  output(stream: "stdout" | "stderr"): ReadableStream<Uint8Array>;
+  /**
+   * Wait until the command prints a line matching the regular expression and return the line. Lines printed before
+   * the call are taken into account as well.
+   *
+   * Rejects if the command exits or closes the output without printing such a line, or if the timeout expires.
+   */
+  waitForLine(re: RegExp, opts?: WaitForLineOptions): Promise<string>;
+  /**
+   * Wait until a TCP port accepts connections.
+   *
+   * Rejects if the command exits before that, or if the timeout expires.
+   */
+  waitForPort(port: number, opts?: WaitForPortOptions): Promise<void>;
+}
+
+/**
+ * Options for `ShellProcess.waitForLine`.
+ */
+export interface WaitForLineOptions {
+  /**
+   * Which output to look at.
+   *
+   * Default: `"both"`
+   */
+  stream?: "stdout" | "stderr" | "both";
+  /**
+   * Give up waiting after the specified amount of milliseconds.
+   *
+   * Default: `30000`
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * Options for `ShellProcess.waitForPort`.
+ */
+export interface WaitForPortOptions {
+  /**
+   * Host to connect to.
+   *
+   * Default: `"127.0.0.1"`
+   */
+  hostname?: string;
+  /**
+   * Give up waiting after the specified amount of milliseconds.
+   *
+   * Default: `30000`
+   */
+  timeoutMs?: number;
+  /**
+   * How many milliseconds to wait between connection attempts.
+   *
+   * Default: `100`
+   */
+  intervalMs?: number;
+}
+
+/**
+ * Generic definition of a background shell command starting tag function.
+ */
+export type SpawnTagFunction<T> = (
+  pieces: TemplateStringsArray,
+  ...args: ShellTemplateArgument[]
+) => ShellProcess<T>;
+
+function delay(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+function withTimeout<T>(p: Promise<T>, timeoutMs: number, message: string): Promise<T> {
+  let timeoutId: number | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+  return Promise.race([p, timeout]).finally(() => clearTimeout(timeoutId));
+}
+
+async function findLine(buf: OutputBuffer, re: RegExp, isCancelled: () => boolean): Promise<string | undefined> {
+  let found: string | undefined;
+  const ls = lineSplitter((line) => {
+    if (found === undefined && re.test(line)) found = line;
+  });
+  for await (const chunk of buf.follow()) {
+    ls.write(chunk);
+    if (found !== undefined || isCancelled()) return found;
+  }
+  ls.flush?.();
+  return found;
+}
+
+function processHandle<T>(rp: RunningProcess, cmd: string, post: (result: ShellResultBinary) => T): ShellProcess<T> {
+  let exited = false;
+  rp.result.then(() => exited = true, () => exited = true);
+  const result = rp.result.then(post);
+  // the handle may be disposed without anyone waiting for the result
+  result.catch(() => {});
+  return {
+    pid: rp.child.pid,
+    cmd,
+    kill: (signal) => {
+      if (signal === undefined) {
+        rp.terminate();
+      } else {
+        killProcess(rp.child, signal, true);
+      }
+    },
+    wait: () => result,
+    output: (stream) => ReadableStream.from((stream === "stdout" ? rp.stdout : rp.stderr).follow()),
+    waitForLine: async (re, opts) => {
+      const stream = opts?.stream ?? "both";
+      let done = false;
+      const searches: Array<Promise<string | undefined>> = [];
+      if (stream !== "stderr") searches.push(findLine(rp.stdout, re, () => done));
+      if (stream !== "stdout") searches.push(findLine(rp.stderr, re, () => done));
+      const firstFound = new Promise<string | undefined>((resolve) => {
+        let pending = searches.length;
+        for (const s of searches) {
+          s.then((line) => {
+            if (line !== undefined || --pending === 0) resolve(line);
+          });
+        }
+      });
+      try {
+        const line = await withTimeout(
+          firstFound,
+          opts?.timeoutMs ?? 30000,
+          `timed out waiting for a line matching ${re} from ${cmd}`,
+        );
+        if (line === undefined) {
+          throw new Error(`${cmd} finished without printing a line matching ${re}`);
+        }
+        return line;
+      } finally {
+        done = true;
+      }
+    },
+    waitForPort: async (port, opts) => {
+      const hostname = opts?.hostname ?? "127.0.0.1";
+      const deadline = Date.now() + (opts?.timeoutMs ?? 30000);
+      while (true) {
+        if (exited) {
+          throw new Error(`${cmd} exited before ${hostname}:${port} started accepting connections`);
+        }
+        try {
+          const conn = await Deno.connect({ hostname, port });
+          conn.close();
+          return;
+        } catch {
+          // not ready yet
+        }
+        if (Date.now() >= deadline) {
+          throw new Error(`timed out waiting for ${hostname}:${port} to accept connections`);
+        }
+        await delay(opts?.intervalMs ?? 100);
+      }
+    },
+    [Symbol.asyncDispose]: async () => {
+      rp.terminate();
+      await rp.result.catch(() => {});
+    },
+  };
+}
+
+/**
+ * Produce a tag function which starts a shell command in the background.
+ *
+ * In most cases you should use the default `spawn` instead.
+ *
+ * The output is decoded as utf-8 and returned as a string.
+ */
+export function spawnOpt(opt: ShellOptions, output?: "utf-8"): SpawnTagFunction<ShellResult>;
+/**
+ * Produce a tag function which starts a shell command in the background.
+ *
+ * In most cases you should use the default `spawn` instead.
+ *
+ * The output is returned as is.
+ */
+export function spawnOpt(opt: ShellOptions, output: "binary"): SpawnTagFunction<ShellResultBinary>;
+/**
+ * Produce a tag function which starts a shell command in the background.
+ *
+ * In most cases you should use the default `spawn` instead.
+ *
+ * This is the overloaded implementaion exported as is for reuse.
+ */
+export function spawnOpt(
+  opt: ShellOptions,
+  output?: "binary" | "utf-8",
+): SpawnTagFunction<ShellResult | ShellResultBinary>;
+export function spawnOpt(
+  opt: ShellOptions,
+  output?: "binary" | "utf-8",
+): SpawnTagFunction<ShellResult | ShellResultBinary> {
+  const noDryRun = () => {
+    if (opt.dryRun ?? globalDryRun) throw new Error("dry run mode is not supported for background commands");
+  };
+  noDryRun();
+  const post = (result: ShellResultBinary): ShellResult | ShellResultBinary =>
+    output === "binary" ? result : binaryToText(result, opt.trim ?? true);
+  const q = quoteOpt(opt);
+  return (pieces, ...args) => {
+    noDryRun();
+    const cmd = q(pieces, ...args);
+    return processHandle(
+      startProcess({ ...opt, processGroup: opt.processGroup ?? true }, cmd),
+      redactSecrets(cmd),
+      post,
+    );
+  };
+}
+
+/**
+ * Default tag function for starting long-running shell commands in the background, e.g. servers.
+ *
+ * ```
+ * await using server = spawn`python3 -m http.server 8000`;
+ * await server.waitForPort(8000);
+ * const result = await sh`curl -s http://127.0.0.1:8000/`;
+ * ```
+ *
+ * The command is terminated when `server` goes out of scope. Alternatively use `kill()` and `wait()` explicitly.
+ */
+export const spawn: SpawnTagFunction<ShellResult> = spawnOpt({});
+
+/**
+ * Shell command stage of a pipeline, see `pipe`.
+ */
+export interface PipelineCommand {
+  /** Quoted command. */
+  readonly cmd: string;
+  /** Options for this particular stage, override pipeline options. */
+  readonly opt?: ShellOptions;
+}
+
+/**
+ * Pipeline stage: either a shell command or a JS transform the data flows through.
+ */
+export type PipelineStage = PipelineCommand | TransformStream<Uint8Array, Uint8Array>;
+
+/**
+ * Result of a pipeline execution.
+ *
+ * `code` follows the bash "pipefail" semantics: it's the exit status code of the last (rightmost) command stage which
+ * failed or zero if all the command stages succeeded. `stdout` is the output of the pipeline's last stage, `stderr`
+ * combines error outputs of all the command stages.
+ */
+export interface PipelineResult extends ShellResult {
+  /** Results of individual command stages in order. Standard output is only available for the last stage. */
+  stages: ShellResult[];
+}
+
+/**
+ * Result of a pipeline execution (raw binary form). See `PipelineResult`.
+ */
+export interface PipelineResultBinary extends ShellResultBinary {
+  /** Results of individual command stages in order. Standard output is only available for the last stage. */
+  stages: ShellResultBinary[];
+}
+
+/**
+ * Generic definition of a pipeline executing function.
+ */
+export type PipeFunction<T> = (...stages: PipelineStage[]) => Promise<T>;
+
+/**
+ * Produce a pipeline stage tag function with custom options. See `stage`.
+ */
+export function stageOpt(
+  opt: ShellOptions,
+): (pieces: TemplateStringsArray, ...args: ShellTemplateArgument[]) => PipelineCommand {
+  const q = quoteOpt(opt);
+  return (pieces, ...args) => ({ cmd: q(pieces, ...args), opt });
+}
+
+/**
+ * Define a shell command pipeline stage. The command is not executed until it's passed to `pipe`.
+ *
+ * ```
+ * await pipe(stage`cat data.txt`, stage`sort`, stage`uniq -c`);
+ * ```
+ */
+export function stage(
+  pieces: TemplateStringsArray,
+  ...args: ShellTemplateArgument[]
+): PipelineCommand {
+  return { cmd: quote(pieces, ...args) };
+}
+
+const emptyBytes = new Uint8Array();
+
+function isTransformStage(s: PipelineStage): s is TransformStream<Uint8Array, Uint8Array> {
+  return s instanceof TransformStream;
+}
+
+async function execPipeline(opt: ShellOptions, stages: PipelineStage[]): Promise<PipelineResultBinary> {
+  if (!stages.some((s) => !isTransformStage(s))) {
+    throw new Error("pipeline must contain at least one command stage");
+  }
+  const cmd = stages.map((s) => isTransformStage(s) ? "<transform>" : s.cmd).join(" | ");
+  const dryRun = dryRunExecOpt(opt);
+  if (dryRun) {
+    // the whole pipeline is a single dry run command, every command stage gets its result
+    const result = await dryRun(cmd);
+    const commands = stages.filter((s): s is PipelineCommand => !isTransformStage(s));
+    return { ...result, stages: commands.map((s) => ({ ...result, cmd: redactSecrets(s.cmd) })) };
+  }
+  const t0 = Date.now();
+  const { stdin, ...stageDefaults } = opt;
+  let current: ReadableStream<Uint8Array> | undefined;
+  let transformError: { err: unknown } | undefined;
+  const onTransformError = (err: unknown) => {
+    transformError ??= { err };
+  };
+  const processes: RunningProcess[] = [];
+  for (let i = 0; i < stages.length; i++) {
+    const s = stages[i];
+    if (isTransformStage(s)) {
+      const input = current ?? (i === 0 ? inputStream(stdin) : undefined) ?? ReadableStream.from([emptyBytes]);
+      current = watchStream(input.pipeThrough(s), onTransformError);
+    } else {
+      const link = i < stages.length - 1 ? new TransformStream<Uint8Array, Uint8Array>() : undefined;
+      const stageOpt = { ...stageDefaults, ...(i === 0 ? { stdin } : undefined), ...s.opt };
+      processes.push(startProcess(stageOpt, s.cmd, { stdin: current, stdout: link?.writable }));
+      current = link?.readable;
+    }
+  }
+  // the pipeline ends with a transform, collect its output here
+  let tail: Promise<void> | undefined;
+  const tailBuf = outputBuffer([]);
+  if (current) tail = collectStream(current, tailBuf).catch(onTransformError);
+  const results = await Promise.all(processes.map((p) => p.result));
+  await tail;
+  if (transformError) throw transformError.err;
+
+  const failed = results.findLast((r) => r.code !== 0);
+  const last = results[results.length - 1];
+  return {
+    ...(failed ?? last),
+    stdout: tail ? tailBuf.bytes() : last.stdout,
+    stderr: concatChunks(
+      results.map((r) => r.stderr),
+      results.reduce((n, r) => n + r.stderr.byteLength, 0),
+    ),
+    cmd: redactSecrets(cmd),
+    elapsedMilliseconds: Date.now() - t0,
+    timedOut: results.some((r) => r.timedOut),
+    stages: results,
+  };
+}
+
+/**
+ * Produce a pipeline executing function.
+ *
+ * In most cases you should use the default `pipe` instead.
+ *
+ * The output is decoded as utf-8 and returned as a string.
+ */
+export function pipeOpt(opt: ShellOptions, output?: "utf-8"): PipeFunction<PipelineResult>;
+/**
+ * Produce a pipeline executing function.
+ *
+ * In most cases you should use the default `pipe` instead.
+ *
+ * The output is returned as is.
+ */
+export function pipeOpt(opt: ShellOptions, output: "binary"): PipeFunction<PipelineResultBinary>;
+/**
+ * Produce a pipeline executing function.
+ *
+ * In most cases you should use the default `pipe` instead.
+ *
+ * This is the overloaded implementaion exported as is for reuse.
+ */
+export function pipeOpt(
+  opt: ShellOptions,
+  output?: "binary" | "utf-8",
+): PipeFunction<PipelineResult | PipelineResultBinary>;
+export function pipeOpt(
+  opt: ShellOptions,
+  output?: "binary" | "utf-8",
+): PipeFunction<PipelineResult | PipelineResultBinary> {
+  return async (...stages) => {
+    const result = await execPipeline(opt, stages);
+    if (output === "binary") return result;
+    const shouldTrim = opt.trim ?? true;
+    const textStages = result.stages.map((r) => binaryToText(r, shouldTrim));
+    return {
+      ...binaryToText(result, shouldTrim),
+      stderr: textStages.map((r) => r.stderr).filter((v) => v).join("\n"),
+      stages: textStages,
+    };
+  };
+}
+
+/**
+ * Default pipeline executing function.
+ *
+ * Connects standard output of each stage to standard input of the next one, the data is streamed between separate
+ * processes. JS transforms can be placed in-between, before or after shell commands. E.g.
+ * ```
+ * const upper = new TransformStream<Uint8Array, Uint8Array>({
+ *   transform: (chunk, c) => c.enqueue(new TextEncoder().encode(new TextDecoder().decode(chunk).toUpperCase())),
+ * });
+ * const result = await pipe(stage`cat /etc/passwd`, upper, stage`grep ROOT`);
+ * console.log(result.stdout);
+ * ```
+ *
+ * Each command stage gets its own result in `stages`, see `PipelineResult`. If a JS transform throws, the error is
+ * re-thrown after all the command stages finish.
+ */
+export const pipe: PipeFunction<PipelineResult> = pipeOpt({});
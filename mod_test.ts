@@ -1,5 +1,33 @@
-import { assertEquals } from "@std/assert";
-import { quote, quoteString } from "./mod.ts";
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { formatShellResult } from "./print.ts";
+import {
+  assign,
+  clearDryRunLog,
+  dialectForShell,
+  dryRunLog,
+  flags,
+  glob,
+  pipe,
+  pipeOpt,
+  quote,
+  quoteFor,
+  quoteString,
+  quoteStringFor,
+  raw,
+  redactSecretBytes,
+  redactSecrets,
+  registerSecret,
+  run,
+  runOpt,
+  secret,
+  type ShellFlags,
+  shOpt,
+  spawn,
+  spawnOpt,
+  stage,
+  terminateRunningProcesses,
+} from "./mod.ts";
+import { denoScript } from "./test_util.ts";
 
 Deno.test("quoteString", () => {
   assertEquals(quoteString(`-param=value`), `-param=value`);
@@ -36,3 +64,520 @@ Deno.test("quote", () => {
     assertEquals(quote`${[]}${[]} a ${[]}`, `a`);
   }
 });
+
+Deno.test("quote fragments", () => {
+  assertEquals(quote`ls ${raw("*.log")} ${raw("")} | wc -l`, `ls *.log | wc -l`);
+  assertEquals(
+    quote`cmd ${{ verbose: true, quiet: false, out: "a b", n: 3, tag: ["x", "y"], none: null }}`,
+    `cmd --verbose --out 'a b' --n 3 --tag x --tag y`,
+  );
+  assertEquals(
+    quote`cmd ${flags({ v: true, out: "a b", tag: ["x", "y"] }, { prefix: "-", separator: "=", arrays: "comma" })}`,
+    `cmd -v '-out=a b' -tag=x,y`,
+  );
+  assertEquals(quote`cmd ${{}} arg`, `cmd arg`);
+  assertEquals(quote`cmd ${Object.assign(Object.create(null), { x: 1 })}`, `cmd --x 1`);
+  for (const v of [null, new Date(), new URL("https://example.com/")] as unknown[] as ShellFlags[]) {
+    assertThrows(() => quote`cmd ${v}`, Error, "only plain objects are formatted as flags");
+  }
+  assertEquals(quote`cmd ${[raw("-"), "a b", flags({ x: 1 })]}`, `cmd - 'a b' --x 1`);
+  assertEquals(quote`${assign({ LANG: "C", MSG: "it's" })} make`, `LANG=C MSG='it'"'"'s' make`);
+  assertThrows(() => assign({ "A B": 1 }));
+  assertThrows(() => quoteFor("powershell")`${assign({ A: 1 })} cmd`);
+  assertEquals(quote`rm ${glob("my logs/*.log")} ${glob("[a-z]?.$x")}`, `rm 'my logs/'*.log [a-z]?'.$x'`);
+  assertEquals(quote`ls ${glob("[$(rm)]")}`, `ls '[$(rm)]'`);
+});
+
+Deno.test("quoteStringFor", () => {
+  assertEquals(dialectForShell("/bin/bash"), "posix");
+  assertEquals(dialectForShell("/usr/local/bin/zsh"), "zsh");
+  assertEquals(dialectForShell("fish"), "fish");
+  assertEquals(dialectForShell("C:\\Program Files\\PowerShell\\7\\pwsh.exe"), "powershell");
+
+  assertEquals(quoteStringFor("posix", `it's`), quoteString(`it's`));
+  assertEquals(quoteStringFor("zsh", `=ls`), `'=ls'`);
+  assertEquals(quoteStringFor("zsh", `a=b`), `a=b`);
+  assertEquals(quoteStringFor("fish", `foo`), `foo`);
+  assertEquals(quoteStringFor("fish", `it's`), `'it\\'s'`);
+  assertEquals(quoteStringFor("fish", `back\\slash`), `'back\\\\slash'`);
+  assertEquals(quoteStringFor("fish", ``), `''`);
+  assertEquals(quoteStringFor("powershell", `it's`), `'it''s'`);
+  assertEquals(quoteStringFor("powershell", `a,b`), `'a,b'`);
+  assertEquals(quoteStringFor("powershell", `-v`), `'-v'`);
+  assertEquals(quoteStringFor("powershell", `1kb`), `'1kb'`);
+  assertEquals(quoteStringFor("powershell", `.5`), `'.5'`);
+  assertEquals(quoteStringFor("powershell", `$x \\`), `'$x \\'`);
+  assertEquals(quoteFor("fish")`echo ${["a b", "c"]} ${[]}`, `echo 'a b' c`);
+});
+
+function findShell(name: string): string | undefined {
+  const out = new Deno.Command("/bin/sh", { args: ["-c", `command -v ${name}`] }).outputSync();
+  return out.success ? new TextDecoder().decode(out.stdout).trim() : undefined;
+}
+
+const quoteRoundTrip = [
+  "",
+  "plain",
+  "a b",
+  "it's",
+  "''",
+  "back\\slash",
+  "\\'",
+  "$HOME",
+  "-param=value",
+  "=ls",
+  "a,b",
+  "tab\tnew\nline",
+  "\u2018smart\u2019",
+  "*",
+  "~",
+  "1kb",
+  "0x10",
+  "1e3",
+  ".5",
+  "+1",
+];
+
+for (
+  const [name, cmd] of [
+    ["sh", "printf %s"],
+    ["bash", "printf %s"],
+    ["zsh", "printf %s"],
+    ["fish", "printf %s"],
+    ["pwsh", "Write-Host -NoNewline"],
+  ]
+) {
+  const shell = findShell(name);
+  Deno.test({
+    name: `quote round-trip through ${name}`,
+    ignore: !shell,
+    fn: async () => {
+      const print = shOpt({ shell, trim: false }).map({ pre: (arg) => `${cmd} ${arg}`, post: (r) => r.stdout });
+      for (const s of quoteRoundTrip) {
+        assertEquals(await print`${s}`, s, `quoting ${JSON.stringify(s)} for ${name}`);
+      }
+    },
+  });
+}
+
+Deno.test("shOpt line callbacks", async () => {
+  const out: string[] = [];
+  const err: string[] = [];
+  const result = await shOpt({
+    onStdoutLine: (line) => out.push(line),
+    onStderrLine: (line) => err.push(line),
+  })`printf 'a\nb\r\n\nc'; echo e 1>&2`;
+  assertEquals(out, ["a", "b", "", "c"]);
+  assertEquals(err, ["e"]);
+  assertEquals(result.stdout, "a\nb\r\n\nc");
+  assertEquals(result.stderr, "e");
+});
+
+async function runScript(script: string): Promise<{ code: number; stdout: string; stderr: string }> {
+  await using s = await denoScript(script);
+  const output = await new Deno.Command(Deno.execPath(), { args: s.args }).output();
+  const td = new TextDecoder();
+  return { code: output.code, stdout: td.decode(output.stdout), stderr: td.decode(output.stderr) };
+}
+
+Deno.test("shOpt tee", async () => {
+  const { code, stdout, stderr } = await runScript(`
+    import { secret, shOpt } from "$SRC/mod.ts";
+    const token = secret("s3cr3t");
+    const result = await shOpt({ tee: true })\`printf 'out 1\\nout %s 2\\n' \${token}; printf 'err %s' \${token} 1>&2\`;
+    console.log(JSON.stringify([result.stdout, result.stderr]));
+  `);
+  assertEquals(code, 0, stderr);
+  assertEquals(stdout, `out 1\nout *** 2\n["out 1\\nout s3cr3t 2","err s3cr3t"]\n`);
+  assertEquals(stderr, "err ***");
+});
+
+Deno.test("shOpt cwd and env", async () => {
+  const dir = await Deno.makeTempDir();
+  try {
+    const result = await shOpt({ cwd: dir })`pwd`;
+    assertEquals(result.stdout, await Deno.realPath(dir));
+  } finally {
+    await Deno.remove(dir);
+  }
+  const home = Deno.env.get("HOME") ?? "";
+  {
+    const result = await shOpt({ env: { A: "1", B: "2" } })`echo "$A $B $HOME"`;
+    assertEquals(result.stdout, `1 2 ${home}`);
+  }
+  {
+    const result = await shOpt({ envMerge: { A: "1 2" } })`echo "$A $HOME"`;
+    assertEquals(result.stdout, `1 2 ${home}`);
+  }
+  {
+    const opt = { env: { A: "1", B: "2" }, envMerge: { B: "3" }, envUnset: ["A", "HOME"] };
+    const result = await shOpt(opt)`echo "$A-$B-$HOME"`;
+    assertEquals(result.stdout, "-3-");
+  }
+});
+
+Deno.test("shOpt timeout", async () => {
+  {
+    const result = await shOpt({ timeoutMs: 100 })`sleep 5`;
+    assertEquals(result.timedOut, true);
+    assertEquals(result.signal, "SIGTERM");
+  }
+  {
+    const result = await shOpt({ timeoutMs: 100, killGraceMs: 100 })`trap "" TERM; sleep 0.5; sleep 0.5`;
+    assertEquals(result.timedOut, true);
+    assertEquals(result.signal, "SIGKILL");
+  }
+  {
+    const result = await shOpt({ timeoutMs: 5000 })`exit 3`;
+    assertEquals(result.timedOut, false);
+    assertEquals(result.signal, null);
+    assertEquals(result.code, 3);
+  }
+});
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    const stat = Deno.readTextFileSync(`/proc/${pid}/stat`);
+    // zombies are dead, they're waiting to be reaped
+    return stat.substring(stat.lastIndexOf(")") + 2)[0] !== "Z";
+  } catch {
+    return false;
+  }
+}
+
+Deno.test({
+  name: "shOpt abort kills process group",
+  ignore: Deno.build.os !== "linux",
+  fn: async () => {
+    const ac = new AbortController();
+    const pids: number[] = [];
+    const result = await shOpt({
+      signal: ac.signal,
+      onStdoutLine: (line) => {
+        pids.push(Number(line));
+        if (pids.length === 2) ac.abort();
+      },
+    })`sleep 30 & echo $!; (sleep 30; true) & echo $!; wait`;
+    assertEquals(result.signal, "SIGTERM");
+    assertEquals(pids.length, 2);
+    for (const pid of pids) {
+      assert(!isProcessAlive(pid), `process ${pid} survived`);
+    }
+  },
+});
+
+Deno.test({
+  name: "Ctrl-C terminates commands",
+  ignore: Deno.build.os !== "linux",
+  fn: async () => {
+    for (const processGroup of [false, true]) {
+      const dir = await Deno.makeTempDir();
+      try {
+        await using s = await denoScript(`
+          import { shOpt } from "$SRC/mod.ts";
+          await shOpt({ processGroup: ${processGroup}, tee: true })\`echo started; sleep 0.5; touch ${dir}/survived\`;
+        `);
+        // the terminal sends Ctrl-C to its foreground process group
+        const p = new Deno.Command(Deno.execPath(), { args: s.args, stdout: "piped", detached: true }).spawn();
+        const reader = p.stdout.pipeThrough(new TextDecoderStream()).getReader();
+        for (let out = ""; !out.includes("started");) {
+          const { value, done } = await reader.read();
+          assert(!done, "the script exited prematurely");
+          out += value;
+        }
+        Deno.kill(-p.pid, "SIGINT");
+        const status = await p.status;
+        await reader.cancel();
+        // the library handles Ctrl-C only when it has to terminate commands itself
+        if (processGroup) {
+          assertEquals(status.code, 130);
+        } else {
+          assertEquals(status.signal, "SIGINT");
+        }
+        await new Promise((resolve) => setTimeout(resolve, 1000));
+        assertEquals([...Deno.readDirSync(dir)], [], `processGroup: ${processGroup}`);
+      } finally {
+        await Deno.remove(dir, { recursive: true });
+      }
+    }
+  },
+});
+
+Deno.test({
+  name: "second Ctrl-C kills commands",
+  ignore: Deno.build.os !== "linux",
+  fn: async () => {
+    const dir = await Deno.makeTempDir();
+    try {
+      // the command ignores SIGTERM, only SIGKILL stops it before the long grace period ends
+      await using s = await denoScript(`
+        import { shOpt } from "$SRC/mod.ts";
+        const opt = { processGroup: true, killGraceMs: 60000, tee: true };
+        await shOpt(opt)\`trap '' TERM; echo started; sleep 1; touch ${dir}/survived\`;
+      `);
+      const p = new Deno.Command(Deno.execPath(), { args: s.args, stdout: "piped", detached: true }).spawn();
+      const reader = p.stdout.pipeThrough(new TextDecoderStream()).getReader();
+      for (let out = ""; !out.includes("started");) {
+        const { value, done } = await reader.read();
+        assert(!done, "the script exited prematurely");
+        out += value;
+      }
+      Deno.kill(-p.pid, "SIGINT");
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      Deno.kill(-p.pid, "SIGINT");
+      const status = await p.status;
+      await reader.cancel();
+      assertEquals(status.code, 130);
+      await new Promise((resolve) => setTimeout(resolve, 1500));
+      assertEquals([...Deno.readDirSync(dir)], []);
+    } finally {
+      await Deno.remove(dir, { recursive: true });
+    }
+  },
+});
+
+Deno.test("spawn", async () => {
+  {
+    const p = spawn`echo starting; echo ready 1>&2; sleep 30`;
+    assertEquals(await p.waitForLine(/^rea/), "ready");
+    p.kill();
+    const result = await p.wait();
+    assertEquals(result.signal, "SIGTERM");
+    assertEquals(result.stdout, "starting");
+  }
+  {
+    await using p = spawn`echo nope`;
+    await assertRejects(() => p.waitForLine(/ready/), Error, "without printing");
+  }
+  {
+    await using p = spawn`sleep 30`;
+    await assertRejects(() => p.waitForLine(/ready/, { timeoutMs: 50 }), Error, "timed out");
+  }
+  {
+    using listener = Deno.listen({ hostname: "127.0.0.1", port: 0 });
+    await using p = spawn`sleep 30`;
+    await p.waitForPort(listener.addr.port);
+    await assertRejects(() => spawn`true`.waitForPort(1), Error, "exited");
+  }
+});
+
+function textTransform(f: (s: string) => string): TransformStream<Uint8Array, Uint8Array> {
+  const td = new TextDecoder();
+  const te = new TextEncoder();
+  return new TransformStream({ transform: (chunk, c) => c.enqueue(te.encode(f(td.decode(chunk)))) });
+}
+
+Deno.test("dryRun", async () => {
+  clearDryRunLog();
+  const dir = await Deno.makeTempDir();
+  try {
+    const lines: string[] = [];
+    const dry = shOpt({ cwd: dir, dryRun: { print: (line) => lines.push(line), colors: false } });
+    const result = await dry`rm -rf ${"my dir"} && touch done`;
+    assertEquals(result.code, 0);
+    assertEquals(result.stdout, "");
+    assertEquals(result.cmd, `rm -rf 'my dir' && touch done`);
+    assertEquals(lines, [`⇒ rm -rf 'my dir' && touch done`]);
+    assertEquals(dryRunLog().map((e) => [e.cmd, e.cwd]), [[`rm -rf 'my dir' && touch done`, dir]]);
+    assertEquals([...Deno.readDirSync(dir)], []);
+
+    const failing = shOpt({ dryRun: { print: false, result: (cmd) => ({ code: cmd.startsWith("false") ? 1 : 0 }) } });
+    assertEquals((await failing`false`).code, 1);
+    assertEquals((await failing`echo ${secret("s3cr3t")}`).cmd, "echo ***");
+    assertEquals(dryRunLog().length, 3);
+
+    // direct execution and pipelines
+    lines.length = 0;
+    const dryRun = { print: (line: string) => lines.push(line), colors: false };
+    assertEquals((await runOpt({ dryRun })`rm -rf ${"my dir"}`).cmd, `rm -rf 'my dir'`);
+    const piped = await pipeOpt({ dryRun })(stage`cat ${"a b"}`, textTransform((s) => s), stage`sort`);
+    assertEquals(piped.cmd, `cat 'a b' | <transform> | sort`);
+    assertEquals(piped.stages.map((r) => [r.cmd, r.code]), [[`cat 'a b'`, 0], ["sort", 0]]);
+    assertEquals(lines, [`⇒ rm -rf 'my dir'`, `⇒ cat 'a b' | <transform> | sort`]);
+    assertEquals(dryRunLog().length, 5);
+    assertThrows(() => spawnOpt({ dryRun }), Error, "not supported");
+    clearDryRunLog();
+    assertEquals(dryRunLog().length, 0);
+  } finally {
+    await Deno.remove(dir, { recursive: true });
+  }
+});
+
+Deno.test("terminateRunningProcesses", async () => {
+  const p = spawn`sleep 30`;
+  const r = shOpt({})`sleep 30`;
+  await terminateRunningProcesses();
+  assertEquals((await p.wait()).signal, "SIGTERM");
+  assertEquals((await r).signal, "SIGTERM");
+});
+
+Deno.test("pipe", async () => {
+  {
+    const result = await pipe(stage`printf 'b\na\nc\n'`, textTransform((s) => s.toUpperCase()), stage`sort`);
+    assertEquals(result.code, 0);
+    assertEquals(result.stdout, "A\nB\nC");
+    assertEquals(result.cmd, `printf 'b\na\nc\n' | <transform> | sort`);
+    assertEquals(result.stages.length, 2);
+  }
+  {
+    const result = await pipe(stage`echo a 1>&2; exit 2`, stage`echo b 1>&2; exit 3`, stage`cat`);
+    assertEquals(result.code, 3);
+    assertEquals(result.stderr, "a\nb");
+    assertEquals(result.stages.map((r) => r.code), [2, 3, 0]);
+  }
+  {
+    const result = await pipe(stage`yes`, stage`head -n 2`, textTransform((s) => s.replaceAll("y", "n")));
+    assertEquals(result.stdout, "n\nn");
+    assertEquals(result.stages[0].signal, "SIGPIPE");
+    assertEquals(result.code, 141);
+  }
+  await assertRejects(
+    () =>
+      pipe(
+        stage`seq 1 1000`,
+        textTransform(() => {
+          throw new Error("boom");
+        }),
+        stage`cat`,
+      ),
+    Error,
+    "boom",
+  );
+});
+
+Deno.test("shOpt stdin sources", async () => {
+  {
+    // larger than pipe buffers in both directions
+    const input = "x".repeat(4 * 1024 * 1024);
+    const result = await shOpt({ stdin: input })`cat`;
+    assertEquals(result.stdout.length, input.length);
+  }
+  {
+    const gen = async function* () {
+      yield "a\n";
+      yield new TextEncoder().encode("b\n");
+    };
+    const result = await shOpt({ stdin: gen() })`cat`;
+    assertEquals(result.stdout, "a\nb");
+  }
+  {
+    const result = await shOpt({ stdin: ReadableStream.from([new TextEncoder().encode("c")]) })`cat`;
+    assertEquals(result.stdout, "c");
+  }
+  {
+    const path = await Deno.makeTempFile();
+    try {
+      await Deno.writeTextFile(path, "from file");
+      const result = await shOpt({ stdin: { file: path } })`cat`;
+      assertEquals(result.stdout, "from file");
+    } finally {
+      await Deno.remove(path);
+    }
+  }
+  {
+    const failing = async function* () {
+      yield "a";
+      throw new Error("input failed");
+    };
+    await assertRejects(() => shOpt({ stdin: failing() })`cat`, Error, "input failed");
+  }
+});
+
+Deno.test("shOpt output limits and redirection", async () => {
+  {
+    const result = await shOpt({ maxOutputBytes: 4 })`printf 0123456789`;
+    assertEquals(result.stdout, "6789");
+    assertEquals(result.truncated, { stdout: true, stderr: false });
+    assertEquals(result.outputBytes, { stdout: 10, stderr: 0 });
+  }
+  {
+    const result = await shOpt({ maxOutputBytes: 4, keepOutput: "head" })`printf 01; printf 23456789`;
+    assertEquals(result.stdout, "0123");
+  }
+  {
+    const result = await shOpt({ maxOutputBytes: 5, keepOutput: "both" }, "binary")`seq 1 9 | tr -d '\n'`;
+    assertEquals(new TextDecoder().decode(result.stdout), "12389");
+    assertEquals(result.truncatedAt, { stdout: 3, stderr: undefined });
+    assert(formatShellResult(result, { verbose: true }).includes("truncated from 9 bytes at byte 3"));
+  }
+  {
+    const result = await shOpt({ maxOutputBytes: 5, keepOutput: "both" })`seq 1 9 | tr -d '\n'`;
+    assertEquals(result.stdout, "123\n[... 4 bytes omitted ...]\n89");
+    assert(!("truncatedAt" in result));
+  }
+  {
+    const result = await shOpt({ maxOutputBytes: 100 })`printf 0123456789`;
+    assertEquals(result.stdout, "0123456789");
+    assertEquals(result.truncated, { stdout: false, stderr: false });
+  }
+  {
+    const path = await Deno.makeTempFile();
+    try {
+      const result = await shOpt({ stdoutFile: path })`echo to file; echo to memory 1>&2`;
+      assertEquals(result.stdout, "");
+      assertEquals(result.stderr, "to memory");
+      assertEquals(result.redirected, { stdout: path, stderr: undefined });
+      assertEquals(await Deno.readTextFile(path), "to file\n");
+    } finally {
+      await Deno.remove(path);
+    }
+  }
+});
+
+Deno.test("run", async () => {
+  {
+    const msg = `it's $HOME; "quoted" \\ `;
+    const result = await run`printf %s|%s|%s ${msg} --name=${"a b"} ${[]}`;
+    assertEquals(result.stdout, `it's $HOME; "quoted" \\ |--name=a b|`);
+    assertEquals(result.cmd, `printf '%s|%s|%s' ${quoteString(msg)} '--name=a b'`);
+  }
+  {
+    const result = await run`printf [%s] ${["x y", ""]} "z"`;
+    assertEquals(result.stdout, `[x y][]["z"]`);
+  }
+  {
+    const result = await run`false`;
+    assertEquals(result.code, 1);
+  }
+  {
+    const upper = run.map({ pre: (cmd) => cmd + " extra", post: (r) => r.stdout.toUpperCase() });
+    assertEquals(await upper`echo ${"a  b"}`, "A  B EXTRA");
+  }
+  {
+    const result = await run`printf [%s] ${{ out: "a b", n: 1 }} ${flags({ x: "y" }, { separator: "=" })}`;
+    assertEquals(result.stdout, `[--out][a b][--n][1][--x=y]`);
+  }
+  await assertRejects(() => run`${[]}`);
+  await assertRejects(() => run`ls ${glob("*")}`);
+});
+
+Deno.test("secret", async () => {
+  const token = `tok'en ${crypto.randomUUID()}`;
+  {
+    const lines: string[] = [];
+    const f = shOpt({ trim: false, onStderrLine: (line) => lines.push(line) });
+    const result = await f`printf %s ${secret(token)}; printf 'a %s b' ${secret(token)} 1>&2; exit 1`;
+    assertEquals(result.stdout, token);
+    assertEquals(lines, ["a *** b"]);
+    assertEquals(result.cmd, "printf %s ***; printf 'a %s b' *** 1>&2; exit 1");
+    const printed = formatShellResult(result, { colors: false });
+    assert(!printed.includes(token));
+    assert(printed.includes("***"));
+  }
+  {
+    const result = await run`printf %s ${secret(token)}`;
+    assertEquals(result.stdout, token);
+    assertEquals(result.cmd, "printf '%s' ***");
+  }
+  const env = crypto.randomUUID();
+  registerSecret(env);
+  assertEquals(redactSecrets(`a ${env} b ${token}`), "a *** b ***");
+  assertEquals(redactSecrets("nothing secret here"), "nothing secret here");
+  const bytes = new TextEncoder().encode(`a ${env} b ${token}`);
+  assertEquals(new TextDecoder().decode(redactSecretBytes(bytes)), "a *** b ***");
+  {
+    const result = await shOpt({}, "binary")`printf '\\001%s\\002' ${secret(token)}`;
+    const printed = formatShellResult(result, { colors: false, verbose: true });
+    assert(printed.includes("│.***.  "), printed);
+  }
+});
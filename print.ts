@@ -1,4 +1,12 @@
-import type { ShellResult, ShellResultBinary } from "./mod.ts";
+import {
+  makeControlCharactersVisible,
+  type PipelineResult,
+  type PipelineResultBinary,
+  redactSecretBytes,
+  redactSecrets,
+  type ShellResult,
+  type ShellResultBinary,
+} from "./mod.ts";
 import { brightRed, gray, green, red } from "@std/fmt/colors";
 import { encodeHex } from "@std/encoding/hex";
 
@@ -25,16 +33,11 @@ function binaryToString(bytes: Uint8Array, limit?: number): string {
   return buf;
 }
 
-// Replace some special characters with their visible unicode counterparts.
-// See: https://en.wikipedia.org/wiki/C0_and_C1_control_codes
-//
-// formatShellResult uses this function unconditionally when printing the command.
-export function makeControlCharactersVisible(v: string): string {
-  return v.replace(/\n/g, "␊").replace(/\t/g, "␉").replace(/\r/g, "␍");
-}
+// Moved to ./mod.ts, dry run mode prints commands the same way.
+export { makeControlCharactersVisible };
 
 function outputToString(v: string | Uint8Array, maxBytes?: number) {
-  return typeof v === "string" ? v : binaryToString(v, maxBytes);
+  return typeof v === "string" ? redactSecrets(v) : binaryToString(redactSecretBytes(v), maxBytes);
 }
 
 function countLines(v: string) {
@@ -57,7 +60,18 @@ function optS(n: number) {
   return n > 1 ? "s" : "";
 }
 
-function outputStatus(v: string | Uint8Array, trimmed: boolean | undefined, maxBytes: number | undefined) {
+function outputStatus(
+  result: ShellResult | ShellResultBinary,
+  stream: "stdout" | "stderr",
+  maxBytes: number | undefined,
+) {
+  const v = result[stream];
+  const trimmed = result.trimmed;
+  const totalBytes = result.outputBytes?.[stream] ?? 0;
+  const redirected = result.redirected?.[stream];
+  if (redirected) {
+    return `redirected to ${redirected} | ${totalBytes} byte${optS(totalBytes)}`;
+  }
   const props: string[] = [];
   if (typeof v === "string") {
     props.push("utf-8" + (trimmed ? " (trimmed)" : ""));
@@ -70,9 +84,18 @@ function outputStatus(v: string | Uint8Array, trimmed: boolean | undefined, maxB
       props.push(`${maxBytes} bytes printed`);
     }
   }
+  if (result.truncated?.[stream]) {
+    const at = "truncatedAt" in result ? result.truncatedAt?.[stream] : undefined;
+    props.push(`truncated from ${totalBytes} byte${optS(totalBytes)}` + (at !== undefined ? ` at byte ${at}` : ""));
+  }
   return props.join(" | ");
 }
 
+function exitStatus(result: ShellResult | ShellResultBinary) {
+  const status = result.signal ? `killed by ${result.signal}` : `(${result.code})`;
+  return result.timedOut ? `${status} (timeout)` : status;
+}
+
 export interface FormatOptions {
   /**
    * Print stdout/stderr on success.
@@ -136,7 +159,8 @@ export interface FormatOptions {
 }
 
 /**
- * Format shell result to human friendly string.
+ * Format shell result to human friendly string. Registered secrets (see `secret`) are replaced with `***` in the
+ * command and in the text output.
  */
 export function formatShellResult(result: ShellResult | ShellResultBinary, opts?: FormatOptions): string {
   const col = opts?.colors ?? true;
@@ -151,14 +175,19 @@ export function formatShellResult(result: ShellResult | ShellResultBinary, opts?
   const maxBytes = opts?.maxBytes === "unlimited" ? undefined : Math.max(0, opts?.maxBytes ?? 320);
   let out = "";
   let err = "";
-  const cmd = opts?.omitCmd ? "" : makeControlCharactersVisible(result.cmd);
+  const cmd = opts?.omitCmd ? "" : makeControlCharactersVisible(redactSecrets(result.cmd));
+  // redirected output is not available, but it's worth mentioning where it went
+  const showOutput = !result.code ? !!opts?.verbose : !opts?.suppressOutput;
+  const annotate = opts?.annotate ?? true;
+  const outRedirected = showOutput && annotate && !!result.redirected?.stdout;
+  const errRedirected = showOutput && annotate && !!result.redirected?.stderr;
   if (!result.code) {
     // success
     if (opts?.verbose) {
       out = outputToString(result.stdout, maxBytes);
       err = outputToString(result.stderr, maxBytes);
     }
-    const hasOutput = !!out || !!err;
+    const hasOutput = !!out || !!err || outRedirected || errRedirected;
     const colon = hasOutput ? ":" : "";
     if (str) str += "\n";
     let prefix = opts?.successPrefix ?? "✔";
@@ -170,28 +199,32 @@ export function formatShellResult(result: ShellResult | ShellResultBinary, opts?
       out = outputToString(result.stdout, maxBytes);
       err = outputToString(result.stderr, maxBytes);
     }
-    const hasOutput = !!out || !!err;
+    const hasOutput = !!out || !!err || outRedirected || errRedirected;
     const colon = hasOutput ? ":" : "";
     if (str) str += "\n";
     let prefix = opts?.errorPrefix ?? "✘";
     if (prefix && cmd) prefix += " ";
-    str += cred(`${prefix}${cmd}`) + elapsedSuffix + cbrightRed(` (${result.code})`) + colon;
+    str += cred(`${prefix}${cmd}`) + elapsedSuffix + cbrightRed(` ${exitStatus(result)}`) + colon;
   }
-  if (out) {
-    if (opts?.annotate ?? true) {
+  if (out || outRedirected) {
+    if (annotate) {
       if (str) str += "\n";
-      str += cgray(`[ STDOUT | ${outputStatus(result.stdout, result.trimmed, maxBytes)} ]`);
+      str += cgray(`[ STDOUT | ${outputStatus(result, "stdout", maxBytes)} ]`);
+    }
+    if (out) {
+      if (str) str += "\n";
+      str += out;
     }
-    if (str) str += "\n";
-    str += out;
   }
-  if (err) {
-    if (opts?.annotate ?? true) {
+  if (err || errRedirected) {
+    if (annotate) {
       if (str) str += "\n";
-      str += cgray(`[ STDERR | ${outputStatus(result.stderr, result.trimmed, maxBytes)} ]`);
+      str += cgray(`[ STDERR | ${outputStatus(result, "stderr", maxBytes)} ]`);
+    }
+    if (err) {
+      if (str) str += "\n";
+      str += err;
     }
-    if (str) str += "\n";
-    str += err;
   }
   return str;
 }
@@ -202,3 +235,22 @@ export function formatShellResult(result: ShellResult | ShellResultBinary, opts?
 export function printShellResult(result: ShellResult | ShellResultBinary, opts?: FormatOptions) {
   console.log(formatShellResult(result, opts));
 }
+
+/**
+ * Format pipeline result to human friendly string. The pipeline as a whole is printed first, followed by each of the
+ * command stages indented underneath.
+ */
+export function formatPipelineResult(result: PipelineResult | PipelineResultBinary, opts?: FormatOptions): string {
+  let str = formatShellResult({ ...result, stdout: "", stderr: "", trimmed: false }, opts);
+  for (const stage of result.stages) {
+    str += "\n" + formatShellResult(stage, opts).replace(/^/gm, "  ");
+  }
+  return str;
+}
+
+/**
+ * A shortcut for `console.log(formatPipelineResult(result, opts))`.
+ */
+export function printPipelineResult(result: PipelineResult | PipelineResultBinary, opts?: FormatOptions) {
+  console.log(formatPipelineResult(result, opts));
+}
@@ -0,0 +1,257 @@
+import { type ActionNode, type ActionStatus, actionTree, ShellError } from "./action.ts";
+import { redactSecretBytes, redactSecrets } from "./mod.ts";
+import { formatShellResult } from "./print.ts";
+import { stripAnsiCode } from "@std/fmt/colors";
+import { encodeHex } from "@std/encoding/hex";
+
+/**
+ * Result of the failed command of an action, see `ShellError`. Binary output is hex encoded, secrets in the output
+ * are replaced with `***` (see `secret` in ./mod.ts).
+ */
+export interface CommandReport {
+  cmd: string;
+  code: number;
+  signal: Deno.Signal | null;
+  timedOut: boolean;
+  elapsedMilliseconds: number;
+  stdout: string;
+  stderr: string;
+  /** Number of times the command was executed, see `RetryPolicy` in ./action.ts. */
+  attempts: number;
+}
+
+/**
+ * Outcome of an action, see `runReport`.
+ */
+export interface ActionReport {
+  label: string;
+  /** Labels of the action's parents and of the action itself. */
+  path: string[];
+  status: ActionStatus;
+  startedAt: string;
+  elapsedMilliseconds: number;
+  /** Number of times the action function was called, see `Config.retry` in ./action.ts. */
+  attempts: number;
+  /** Message of the error the action failed with. */
+  error?: string;
+  /**
+   * Printable failure details without colors: the formatted command result (see `formatShellResult`) for shell
+   * errors, the stack trace for other errors.
+   */
+  output?: string;
+  /** The failed command, when the action failed with `ShellError`. */
+  command?: CommandReport;
+  children: ActionReport[];
+}
+
+/**
+ * Report of the executed actions, see `runReport`.
+ */
+export interface RunReport {
+  startedAt: string;
+  elapsedMilliseconds: number;
+  /** Whether none of the actions failed, timed out or was interrupted. */
+  ok: boolean;
+  /** Number of actions (nested ones included) with each status. */
+  counts: Partial<Record<ActionStatus, number>>;
+  actions: ActionReport[];
+}
+
+const failedStatuses: ActionStatus[] = ["ERROR", "TIMEOUT", "INTERRUPTED"];
+
+function endTime(node: ActionNode): number {
+  return node.startedAt.getTime() + (node.elapsedMilliseconds ?? Date.now() - node.startedAt.getTime());
+}
+
+// Output has secrets redacted the same way as when printed, see `secret` in ./mod.ts.
+function outputText(v: string | Uint8Array): string {
+  return typeof v === "string" ? stripAnsiCode(redactSecrets(v)) : encodeHex(redactSecretBytes(v));
+}
+
+function failureDetails(err: unknown): Pick<ActionReport, "error" | "output" | "command"> {
+  if (err === undefined) return {};
+  const error = err instanceof Error ? err.message : String(err);
+  if (!(err instanceof ShellError)) {
+    return { error, output: stripAnsiCode(err instanceof Error ? err.stack ?? error : error) };
+  }
+  const r = err.result;
+  return {
+    error,
+    output: stripAnsiCode(formatShellResult(r, { colors: false })),
+    command: {
+      cmd: r.cmd,
+      code: r.code,
+      signal: r.signal ?? null,
+      timedOut: r.timedOut ?? false,
+      elapsedMilliseconds: r.elapsedMilliseconds,
+      stdout: outputText(r.stdout),
+      stderr: outputText(r.stderr),
+      attempts: err.attempts.length,
+    },
+  };
+}
+
+function actionReport(node: ActionNode, parentPath: string[]): ActionReport {
+  const path = [...parentPath, node.label];
+  return {
+    label: node.label,
+    path,
+    status: node.status,
+    startedAt: node.startedAt.toISOString(),
+    elapsedMilliseconds: endTime(node) - node.startedAt.getTime(),
+    attempts: node.attempts,
+    ...failureDetails(node.error),
+    children: node.children.map((c) => actionReport(c, path)),
+  };
+}
+
+/**
+ * Collect the outcomes of the executed actions: statuses, durations, nesting and the results of the failed commands.
+ * The report is a plain object, ready for `JSON.stringify`.
+ */
+export function runReport(nodes: readonly ActionNode[] = actionTree()): RunReport {
+  const counts: Partial<Record<ActionStatus, number>> = {};
+  const count = (node: ActionNode) => {
+    counts[node.status] = (counts[node.status] ?? 0) + 1;
+    node.children.forEach(count);
+  };
+  nodes.forEach(count);
+  const start = Math.min(...nodes.map((n) => n.startedAt.getTime()));
+  const end = Math.max(...nodes.map(endTime));
+  return {
+    startedAt: new Date(nodes.length ? start : Date.now()).toISOString(),
+    elapsedMilliseconds: nodes.length ? end - start : 0,
+    ok: failedStatuses.every((s) => !counts[s]),
+    counts,
+    actions: nodes.map((n) => actionReport(n, [])),
+  };
+}
+
+// Escape text for XML attributes and content. Control characters are not allowed in XML 1.0 at all.
+function xmlEscape(s: string): string {
+  return s
+    // deno-lint-ignore no-control-regex
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "�")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function flatten(report: ActionReport): ActionReport[] {
+  return [report, ...report.children.flatMap(flatten)];
+}
+
+/**
+ * JUnit report options.
+ */
+export interface JUnitOptions {
+  /**
+   * Name of the whole run, the `name` attribute of `<testsuites>`.
+   *
+   * Default: `"actions"`
+   */
+  name?: string;
+}
+
+/**
+ * Format the executed actions as a JUnit XML report. Each top-level action is a test suite, each action (the
+ * top-level one included) is a test case named by its label, with the labels of its parents as the class name.
+ * Failed actions have the failure details attached (see `ActionReport.output`), skipped and up to date actions are
+ * reported as skipped.
+ */
+export function formatJUnitReport(report: RunReport = runReport(), opt?: JUnitOptions): string {
+  const lines = ['<?xml version="1.0" encoding="UTF-8"?>'];
+  // failures, errors and skipped counts of a list of test cases
+  const outcomes = (cases: ActionReport[]) => {
+    const count = (statuses: ActionStatus[]) => cases.filter((c) => statuses.includes(c.status)).length;
+    return `failures="${count(["ERROR", "TIMEOUT"])}" errors="${count(["INTERRUPTED"])}" ` +
+      `skipped="${count(["SKIPPED", "UP-TO-DATE", "RUNNING"])}"`;
+  };
+  const all = report.actions.flatMap(flatten);
+  lines.push(
+    `<testsuites name="${xmlEscape(opt?.name ?? "actions")}" tests="${all.length}" ${outcomes(all)} ` +
+      `time="${seconds(report.elapsedMilliseconds)}">`,
+  );
+  for (const root of report.actions) {
+    const cases = flatten(root);
+    lines.push(
+      `  <testsuite name="${xmlEscape(root.label)}" tests="${cases.length}" ${outcomes(cases)} ` +
+        `time="${seconds(root.elapsedMilliseconds)}" timestamp="${root.startedAt}">`,
+    );
+    for (const c of cases) {
+      const classname = (c.path.length > 1 ? c.path.slice(0, -1) : c.path).join(" / ");
+      const attrs = `name="${xmlEscape(c.label)}" classname="${xmlEscape(classname)}" ` +
+        `time="${seconds(c.elapsedMilliseconds)}"`;
+      const message = xmlEscape(c.error ?? c.status);
+      const body = xmlEscape(c.output ?? "");
+      switch (c.status) {
+        case "OK":
+          lines.push(`    <testcase ${attrs}/>`);
+          break;
+        case "ERROR":
+        case "TIMEOUT":
+          lines.push(`    <testcase ${attrs}>`);
+          lines.push(`      <failure message="${message}" type="${c.status}">${body}</failure>`);
+          lines.push(`    </testcase>`);
+          break;
+        case "INTERRUPTED":
+          lines.push(`    <testcase ${attrs}>`);
+          lines.push(`      <error message="${message}" type="${c.status}">${body}</error>`);
+          lines.push(`    </testcase>`);
+          break;
+        default:
+          lines.push(`    <testcase ${attrs}>`);
+          lines.push(`      <skipped message="${xmlEscape(c.status)}"/>`);
+          lines.push(`    </testcase>`);
+      }
+    }
+    lines.push(`  </testsuite>`);
+  }
+  lines.push(`</testsuites>`);
+  return lines.join("\n") + "\n";
+}
+
+/**
+ * Where to write the reports, see `writeRunReports`.
+ */
+export interface ReportFiles extends JUnitOptions {
+  /**
+   * Path of the JUnit XML report.
+   *
+   * Default: `undefined` (not written)
+   */
+  junit?: string;
+  /**
+   * Path of the JSON report, see `RunReport`.
+   *
+   * Default: `undefined` (not written)
+   */
+  json?: string;
+}
+
+/**
+ * Write the reports of the actions executed so far. Writing is synchronous, so it works in the `unload` event
+ * handler as well, see `writeRunReportsOnExit`.
+ */
+export function writeRunReports(files: ReportFiles) {
+  const report = runReport();
+  if (files.junit) Deno.writeTextFileSync(files.junit, formatJUnitReport(report, files));
+  if (files.json) Deno.writeTextFileSync(files.json, JSON.stringify(report, null, 2) + "\n");
+}
+
+/**
+ * Write the reports when the program exits, including `Deno.exit()` and Ctrl-C (see ./interrupt.ts). E.g. at the
+ * beginning of a CI provisioning script:
+ * ```
+ * writeRunReportsOnExit({ junit: "reports/junit.xml", json: "reports/actions.json" });
+ * ```
+ */
+export function writeRunReportsOnExit(files: ReportFiles) {
+  globalThis.addEventListener("unload", () => writeRunReports(files));
+}
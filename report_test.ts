@@ -0,0 +1,54 @@
+import { assert, assertEquals, assertStringIncludes } from "@std/assert";
+import { action, actionTree, defaultConfig, shAction, shActionOpt, SkipError } from "./action.ts";
+import { secret } from "./mod.ts";
+import { formatJUnitReport, runReport } from "./report.ts";
+
+defaultConfig.verbosity = "quiet";
+
+Deno.test("runReport and formatJUnitReport", async () => {
+  const before = actionTree().length;
+  await action("Provision <web>", async () => {
+    await action("Install", () => shAction`true`);
+    await action("Restore", () => {
+      throw new SkipError();
+    });
+    await action("Configure", () => shAction`echo "bad & broken" ${secret("s3cr3t")} >&2; exit 2`);
+  }).catch(() => {});
+  const report = runReport(actionTree().slice(before));
+
+  assert(!report.ok);
+  assertEquals(report.counts, { OK: 1, SKIPPED: 1, ERROR: 2 });
+  const [root] = report.actions;
+  assertEquals(root.children.map((c) => [c.path.join(" / "), c.status]), [
+    ["Provision <web> / Install", "OK"],
+    ["Provision <web> / Restore", "SKIPPED"],
+    ["Provision <web> / Configure", "ERROR"],
+  ]);
+  const configure = root.children[2];
+  assertEquals(configure.command?.code, 2);
+  assertEquals(configure.command?.stderr, "bad & broken ***");
+  assertStringIncludes(configure.output ?? "", "bad & broken");
+  assert(!configure.output?.includes("\x1b["));
+  assertEquals(JSON.parse(JSON.stringify(report)), report);
+  assert(!JSON.stringify(report).includes("s3cr3t"));
+
+  const xml = formatJUnitReport(report, { name: "ci" });
+  assertStringIncludes(xml, `<testsuites name="ci" tests="4" failures="2" errors="0" skipped="1"`);
+  assertStringIncludes(xml, `<testsuite name="Provision &lt;web&gt;" tests="4"`);
+  assertStringIncludes(xml, `<testcase name="Install" classname="Provision &lt;web&gt;" time="`);
+  assertStringIncludes(xml, `<skipped message="SKIPPED"/>`);
+  assertStringIncludes(
+    xml,
+    `<failure message="echo &quot;bad &amp; broken&quot; *** &gt;&amp;2; exit 2 exited with code 2"`,
+  );
+  assertStringIncludes(xml, `bad &amp; broken ***</failure>`);
+  assert(!xml.includes("s3cr3t"));
+});
+
+Deno.test("runReport binary output", async () => {
+  const before = actionTree().length;
+  await action("Dump", () => shActionOpt({}, "binary")`printf '<%s>' ${secret("b1n4ry")} >&2; exit 3`).catch(() => {});
+  const [dump] = runReport(actionTree().slice(before)).actions;
+  assertEquals(dump.command?.stderr, "3c2a2a2a3e");
+  assert(!dump.output?.includes("b1n4ry"));
+});
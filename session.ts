@@ -0,0 +1,225 @@
+import { emitShellEvent, hasShellEventListeners, nextCommandId } from "./events.ts";
+import {
+  dialectForShell,
+  getDryRun,
+  makeTagFunction,
+  quoteString,
+  redactSecrets,
+  type ShellOptions,
+  type ShellProcess,
+  type ShellResult,
+  type ShellResultBinary,
+  spawnOpt,
+  type TagFunction,
+  trimMaybe,
+} from "./mod.ts";
+
+/**
+ * Shell session options. See `ShellOptions` for details, the options apply to the session shell process. The shell
+ * is invoked with `-s` argument and has to read commands from standard input. Only POSIX-like shells (e.g. bash, sh,
+ * dash or zsh) are supported, the commands are framed with POSIX shell syntax.
+ */
+export type SessionOptions = Pick<
+  ShellOptions,
+  "shell" | "trim" | "cwd" | "env" | "envMerge" | "envUnset" | "onEvent"
+>;
+
+/**
+ * A long-lived shell process executing commands one by one. The shell state (current directory, variables, functions,
+ * etc.) carries over from one command to another.
+ *
+ * Supports `await using` declarations, the session is closed when it goes out of scope.
+ */
+export interface ShellSession extends AsyncDisposable {
+  /** Process ID of the session shell. */
+  readonly pid: number;
+  /** Execute a command in the session, the output is decoded as utf-8 and returned as a string. */
+  readonly sh: TagFunction<ShellResult>;
+  /** Execute a command in the session, the output is returned as is. */
+  readonly shBinary: TagFunction<ShellResultBinary>;
+  /** Whether the session shell is still running and accepts commands. */
+  alive(): boolean;
+  /** Wait for the pending commands to finish, terminate the shell and return the result of the shell process. */
+  close(): Promise<ShellResult>;
+}
+
+/**
+ * Custom error class for failures of the session shell itself, e.g. when the shell exits in the middle of a command.
+ */
+export class ShellSessionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.stack = new Error().stack;
+  }
+}
+
+function indexOf(buf: Uint8Array, needle: Uint8Array, from: number): number {
+  outer: for (let i = from; i <= buf.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (buf[i + j] !== needle[j]) continue outer;
+    }
+    return i;
+  }
+  return -1;
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array {
+  const result = new Uint8Array(a.byteLength + b.byteLength);
+  result.set(a);
+  result.set(b, a.byteLength);
+  return result;
+}
+
+// Read the output of the session shell frame by frame. Returns `undefined` if the output ends before the terminator.
+function frameReader(stream: ReadableStream<Uint8Array>): (terminator: Uint8Array) => Promise<Uint8Array | undefined> {
+  const reader = stream.getReader();
+  let buf: Uint8Array = new Uint8Array();
+  return async (terminator) => {
+    let from = 0;
+    while (true) {
+      const i = indexOf(buf, terminator, from);
+      if (i !== -1) {
+        const frame = buf.slice(0, i);
+        buf = buf.slice(i + terminator.byteLength);
+        return frame;
+      }
+      from = Math.max(0, buf.byteLength - terminator.byteLength + 1);
+      const { done, value } = await reader.read();
+      if (done) return undefined;
+      buf = concat(buf, value);
+    }
+  };
+}
+
+/**
+ * Start a shell session: a single long-lived shell process which executes all the commands. Saves process startup
+ * time for scripts running lots of small commands and keeps the shell state between commands. E.g.
+ * ```
+ * await using s = await shellSession();
+ * await s.sh`cd build`;
+ * await s.sh`make`;
+ * ```
+ *
+ * Commands are executed one at a time in the order of calls, standard input of a command is always empty. Commands
+ * which terminate the shell (e.g. `exit`) fail with `ShellSessionError`, as well as all the commands after that.
+ * Every command has its own start and end events (see ./events.ts), the session shell itself has them as well.
+ * Shells other than POSIX-like ones (see `dialectForShell`) are rejected with `ShellSessionError` as well, so is
+ * starting a session in dry run mode (see `setDryRun` in ./mod.ts).
+ */
+export async function shellSession(opt: SessionOptions = {}): Promise<ShellSession> {
+  const dialect = dialectForShell(opt.shell ?? "/bin/bash");
+  if (dialect !== "posix" && dialect !== "zsh") {
+    throw new ShellSessionError(`${opt.shell} is not supported, sessions need a POSIX-like shell, e.g. bash`);
+  }
+  if (getDryRun()) throw new ShellSessionError("dry run mode is not supported for shell sessions");
+  const te = new TextEncoder();
+  const td = new TextDecoder();
+  const input = new TransformStream<Uint8Array, Uint8Array>();
+  const writer = input.writable.getWriter();
+  // `exec` keeps the pid, the session shell gets a meaningful command line in its result and events
+  const proc: ShellProcess<ShellResult> = spawnOpt({
+    ...opt,
+    shellArgs: ["-c"],
+    stdin: input.readable,
+    maxOutputBytes: 0,
+  })`exec ${opt.shell ?? "/bin/bash"} -s`;
+  const readStdout = frameReader(proc.output("stdout"));
+  const readStderr = frameReader(proc.output("stderr"));
+  const token = crypto.randomUUID();
+  const shouldTrim = opt.trim ?? true;
+  let counter = 0;
+  let dead = false;
+  // working directory of the shell, for command events
+  let cwd = opt.cwd ?? Deno.cwd();
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const run = async (cmd: string): Promise<ShellResultBinary> => {
+    if (dead) throw new ShellSessionError(`session shell is not running, cannot execute ${redactSecrets(cmd)}`);
+    const t0 = Date.now();
+    const marker = `${token}:${counter++}`;
+    const id = nextCommandId();
+    const start = { id, cmd: redactSecrets(cmd), pid: proc.pid, cwd };
+    if (hasShellEventListeners(opt.onEvent)) {
+      emitShellEvent({ type: "commandStart", time: new Date(), ...start }, opt.onEvent);
+    }
+    const end = (code: number, signal: Deno.Signal | null, stdout: number, stderr: number) => {
+      if (!hasShellEventListeners(opt.onEvent)) return;
+      emitShellEvent({
+        type: "commandEnd",
+        time: new Date(),
+        ...start,
+        elapsedMilliseconds: Date.now() - t0,
+        code,
+        signal,
+        timedOut: false,
+        outputBytes: { stdout, stderr },
+      }, opt.onEvent);
+    };
+    const fail = async (): Promise<never> => {
+      dead = true;
+      const result = await proc.wait();
+      end(result.code, result.signal ?? null, 0, 0);
+      throw new ShellSessionError(`session shell exited with code ${result.code} while executing ${start.cmd}`);
+    };
+    // the exit code and the working directory (for the next command) follow the output
+    const script = `eval ${quoteString(cmd)} </dev/null\n` +
+      `printf '\\n%s %d\\n%s\\n%s\\n' ${marker} "$?" "$PWD" ${marker}\n` +
+      `printf '\\n%s\\n' ${marker} 1>&2\n`;
+    try {
+      await writer.write(te.encode(script));
+    } catch {
+      return await fail();
+    }
+    const stdout = await readStdout(te.encode(`\n${marker} `));
+    const code = stdout && await readStdout(te.encode("\n"));
+    const pwd = code && await readStdout(te.encode(`\n${marker}\n`));
+    const stderr = await readStderr(te.encode(`\n${marker}\n`));
+    if (!stdout || !code || !pwd || !stderr) return await fail();
+    cwd = td.decode(pwd);
+    end(Number(td.decode(code)), null, stdout.byteLength, stderr.byteLength);
+    return {
+      code: Number(td.decode(code)),
+      stdout,
+      stderr,
+      cmd: start.cmd,
+      elapsedMilliseconds: Date.now() - t0,
+      signal: null,
+      timedOut: false,
+    };
+  };
+  // one command at a time
+  const exec = (cmd: string): Promise<ShellResultBinary> => {
+    const p = queue.then(() => run(cmd));
+    queue = p.catch(() => {});
+    return p;
+  };
+  const close = async () => {
+    await queue;
+    dead = true;
+    await writer.close().catch(() => {});
+    return await proc.wait();
+  };
+
+  const session: ShellSession = {
+    pid: proc.pid,
+    sh: makeTagFunction(async (cmd) => {
+      const result = await exec(cmd);
+      return {
+        ...result,
+        stdout: trimMaybe(td.decode(result.stdout), shouldTrim),
+        stderr: trimMaybe(td.decode(result.stderr), shouldTrim),
+        trimmed: shouldTrim,
+      };
+    }, dialect),
+    shBinary: makeTagFunction(exec, dialect),
+    alive: () => !dead,
+    close,
+    [Symbol.asyncDispose]: async () => {
+      await close();
+    },
+  };
+  // make sure the shell is up and running
+  await session.sh`true`;
+  return session;
+}
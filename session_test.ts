@@ -0,0 +1,58 @@
+import { assertEquals, assertRejects } from "@std/assert";
+import { setDryRun } from "./mod.ts";
+import { shellSession, ShellSessionError } from "./session.ts";
+
+Deno.test("shellSession", async () => {
+  await using s = await shellSession();
+  const dir = await Deno.realPath(await Deno.makeTempDir());
+  try {
+    await s.sh`cd ${dir}; export FOO=${"a b"}`;
+    assertEquals((await s.sh`pwd`).stdout, dir);
+    const result = await s.sh`echo "$FOO"; echo err 1>&2; false`;
+    assertEquals(result.code, 1);
+    assertEquals(result.stdout, "a b");
+    assertEquals(result.stderr, "err");
+    assertEquals(result.cmd, `echo "$FOO"; echo err 1>&2; false`);
+  } finally {
+    await Deno.remove(dir);
+  }
+});
+
+Deno.test("shellSession framing", async () => {
+  await using s = await shellSession({ trim: false });
+  const results = await Promise.all([
+    s.sh`printf 'no newline'`,
+    s.sh`printf 'x\n\n'; printf 'y' 1>&2`,
+    s.shBinary`printf '\\000\\001'`,
+    s.sh`cat`,
+  ]);
+  assertEquals(results[0].stdout, "no newline");
+  assertEquals(results[1].stdout, "x\n\n");
+  assertEquals(results[1].stderr, "y");
+  assertEquals(results[2].stdout, new Uint8Array([0, 1]));
+  assertEquals(results[3].stdout, "");
+  const upper = s.sh.map((r) => r.stdout.toUpperCase());
+  assertEquals(await upper`echo ${"mapped"}`, "MAPPED\n");
+});
+
+Deno.test("shellSession crash", async () => {
+  const s = await shellSession();
+  await assertRejects(() => s.sh`exit 3`, ShellSessionError, "exited with code 3");
+  assertEquals(s.alive(), false);
+  await assertRejects(() => s.sh`true`, ShellSessionError, "not running");
+  assertEquals((await s.close()).code, 3);
+});
+
+Deno.test("shellSession rejects non-POSIX shells", async () => {
+  await assertRejects(() => shellSession({ shell: "fish" }), ShellSessionError, "fish is not supported");
+  await assertRejects(() => shellSession({ shell: "pwsh" }), ShellSessionError, "pwsh is not supported");
+});
+
+Deno.test("shellSession rejects dry run mode", async () => {
+  setDryRun(true);
+  try {
+    await assertRejects(() => shellSession(), ShellSessionError, "dry run mode is not supported");
+  } finally {
+    setDryRun(undefined);
+  }
+});
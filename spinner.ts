@@ -1,12 +1,19 @@
-import type { ShellResult, ShellResultBinary, TagFunction } from "./mod.ts";
+import {
+  redactSecrets,
+  type ShellResult,
+  type ShellResultBinary,
+  type TagFunction,
+  terminateRunningProcesses,
+} from "./mod.ts";
 import { type FormatOptions, formatShellResult, makeControlCharactersVisible } from "./print.ts";
 import { ansi } from "@cliffy/ansi";
 import { colors } from "@cliffy/ansi/colors";
+import { onInterrupt } from "./interrupt.ts";
 
 const spinnerFrames = ["|", "/", "-", "\\"];
 
 // Wrap a tag function with a spinner printer. Note that it's not concurrency aware, you cannot run multiple commands
-// in parallel with it, it will mess up the screen.
+// in parallel with it, it will mess up the screen. See `parallel` in ./action.ts for running actions in parallel.
 //
 // See also: ./examples/spinner.ts
 export function wrapWithSpinnerPrinter<T extends ShellResult | ShellResultBinary>(
@@ -40,10 +47,18 @@ export function wrapWithSpinnerPrinter<T extends ShellResult | ShellResultBinary
   };
 
   let t0 = 0;
+  let stopInterruptHandling: (() => void) | undefined;
+  // Ctrl-C leaves the command line finished instead of the spinner character, the command is terminated
+  const interrupt = () => {
+    stopSpinner();
+    console.log(`${red("✘")} [${(Date.now() - t0) / 1000}s] ${brightRed("(INTERRUPTED)")}`);
+    return terminateRunningProcesses();
+  };
   return f.map({
     pre: (cmd) => {
       t0 = Date.now();
-      Deno.stdout.writeSync(te.encode(boldWhite("⇒ ") + makeControlCharactersVisible(cmd) + " "));
+      stopInterruptHandling = onInterrupt(interrupt);
+      Deno.stdout.writeSync(te.encode(boldWhite("⇒ ") + makeControlCharactersVisible(redactSecrets(cmd)) + " "));
       startSpinner();
       return cmd;
     },
@@ -53,6 +68,7 @@ export function wrapWithSpinnerPrinter<T extends ShellResult | ShellResultBinary
       return result;
     },
     finalize: () => {
+      stopInterruptHandling?.();
       const isException = timeout !== undefined;
       stopSpinner();
       if (isException) {
@@ -0,0 +1,342 @@
+import {
+  action,
+  actionGroup,
+  type Config,
+  InterruptedError,
+  SkipError,
+  TimeoutError,
+  UpToDateError,
+} from "./action.ts";
+import { incremental } from "./incremental.ts";
+
+/**
+ * Task body, see `action` for the meaning of the abort signal.
+ */
+export type TaskFunction = (asig: AbortSignal) => Promise<unknown> | unknown;
+
+/**
+ * Task definition options.
+ */
+export interface TaskOptions {
+  /**
+   * Names of the tasks which have to finish successfully before this task starts.
+   *
+   * Default: `[]`
+   */
+  deps?: string[];
+  /**
+   * Description shown in the task list.
+   *
+   * Default: `undefined`
+   */
+  description?: string;
+  /**
+   * Action configuration for the task, see `action`.
+   *
+   * Default: `undefined`
+   */
+  config?: Config;
+  /**
+   * Input files of the task, makes the task incremental: it's not executed again until the inputs change. See
+   * `incremental`.
+   *
+   * Default: `undefined`
+   */
+  inputs?: string[];
+  /**
+   * Output files of the task, see `incremental`. Only used together with `inputs`.
+   *
+   * Default: `undefined`
+   */
+  outputs?: string[];
+}
+
+/**
+ * Outcome of a task. `"NOT_RUN"` means the task wasn't started because one of its dependencies failed or the run was
+ * stopped.
+ */
+export type TaskStatus = "OK" | "ERROR" | "SKIPPED" | "UP-TO-DATE" | "TIMEOUT" | "INTERRUPTED" | "NOT_RUN";
+
+/**
+ * Task run options.
+ */
+export interface RunOptions {
+  /**
+   * What to do when a task fails. `"stop"` doesn't start any new tasks (the running ones are finished),
+   * `"continue"` keeps running the tasks which don't depend on the failed one.
+   *
+   * Default: `"stop"`
+   */
+  onFailure?: "stop" | "continue";
+  /**
+   * Maximum number of tasks running at the same time, a positive integer or `Infinity`.
+   *
+   * Default: `Infinity`
+   */
+  concurrency?: number;
+  /**
+   * Run only the given tasks, without their dependencies.
+   *
+   * Default: `false`
+   */
+  only?: boolean;
+}
+
+/**
+ * Result of a task run.
+ */
+export interface TaskRunResult {
+  /** Whether all the tasks finished successfully (or were skipped). */
+  ok: boolean;
+  /** Statuses of the tasks in execution plan order. */
+  statuses: Map<string, TaskStatus>;
+  /** Errors of the failed tasks. */
+  errors: Map<string, unknown>;
+}
+
+/**
+ * Task information as returned by `TaskRegistry.list`.
+ */
+export interface TaskInfo {
+  name: string;
+  description?: string;
+  deps: string[];
+}
+
+/**
+ * A set of tasks depending on each other, see `taskRegistry`.
+ */
+export interface TaskRegistry {
+  /** Define a task. Redefining a task is an error. */
+  define(name: string, f: TaskFunction): void;
+  /** Define a task. Redefining a task is an error. */
+  define(name: string, opt: TaskOptions, f: TaskFunction): void;
+  /** Defined tasks in order of definition. */
+  list(): TaskInfo[];
+  /**
+   * Tasks to run for the given targets in execution order, dependencies first. Throws `TaskError` on unknown tasks
+   * and dependency cycles.
+   */
+  plan(targets: string[], only?: boolean): string[];
+  /**
+   * Run the given tasks and their dependencies. Independent tasks run in parallel, each task runs at most once.
+   * Task failures are reported in the result, the promise is rejected only if the plan is invalid.
+   */
+  run(targets: string[], opt?: RunOptions): Promise<TaskRunResult>;
+  /**
+   * Command line entry point, returns the exit code. E.g. `Deno.exit(await tasks.main(Deno.args))`.
+   *
+   * ```
+   * Usage: <script> [options] [task...]
+   *   --list               list tasks and exit
+   *   --only               run the given tasks without their dependencies
+   *   --continue           keep running independent tasks after a failure
+   *   --concurrency <n>    run at most n tasks at the same time
+   * ```
+   *
+   * Runs the `"default"` task if no tasks are given, lists the tasks if there is no such task.
+   */
+  main(args?: string[]): Promise<number>;
+}
+
+/**
+ * Custom error class for invalid task definitions and plans: unknown tasks, dependency cycles, etc.
+ */
+export class TaskError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = this.constructor.name;
+    this.stack = new Error().stack;
+  }
+}
+
+interface Task {
+  name: string;
+  deps: string[];
+  description?: string;
+  config?: Config;
+  f: TaskFunction;
+}
+
+function semaphore(n: number): () => Promise<() => void> {
+  let active = 0;
+  const waiting: Array<() => void> = [];
+  const release = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+  return async () => {
+    if (active < n) {
+      active++;
+    } else {
+      await new Promise<void>((resolve) => waiting.push(resolve));
+    }
+    return release;
+  };
+}
+
+/**
+ * Create a task registry: a Makefile-like set of tasks with dependencies, each task is executed as an `action`. E.g.
+ * ```
+ * const tasks = taskRegistry();
+ * tasks.define("codegen", () => shAction`./codegen.sh`);
+ * tasks.define("build", { deps: ["codegen"] }, () => shAction`go build ./...`);
+ * tasks.define("lint", { deps: ["codegen"] }, () => shAction`golangci-lint run`);
+ * tasks.define("default", { deps: ["build", "lint"] }, () => {});
+ * Deno.exit(await tasks.main(Deno.args));
+ * ```
+ *
+ * Throwing `SkipError` from a task marks it as skipped, the tasks depending on it still run. So do the tasks depending
+ * on an up to date incremental task (see `TaskOptions.inputs`).
+ */
+export function taskRegistry(): TaskRegistry {
+  const tasks = new Map<string, Task>();
+
+  const get = (name: string, requiredBy?: string) => {
+    const task = tasks.get(name);
+    if (!task) throw new TaskError(`unknown task ${name}` + (requiredBy ? ` required by ${requiredBy}` : ""));
+    return task;
+  };
+
+  const plan = (targets: string[], only = false): string[] => {
+    if (only) return [...new Set(targets.map((name) => get(name).name))];
+    const order: string[] = [];
+    const done = new Set<string>();
+    const path: string[] = [];
+    const visit = (name: string, requiredBy?: string) => {
+      if (done.has(name)) return;
+      const i = path.indexOf(name);
+      if (i !== -1) throw new TaskError(`dependency cycle: ${[...path.slice(i), name].join(" -> ")}`);
+      const task = get(name, requiredBy);
+      path.push(name);
+      for (const dep of task.deps) visit(dep, name);
+      path.pop();
+      done.add(name);
+      order.push(name);
+    };
+    for (const name of targets) visit(name);
+    return order;
+  };
+
+  const run = async (targets: string[], opt?: RunOptions): Promise<TaskRunResult> => {
+    const concurrency = opt?.concurrency ?? Infinity;
+    if (!(Number.isInteger(concurrency) && concurrency >= 1) && concurrency !== Infinity) {
+      throw new TaskError(`invalid concurrency: ${concurrency}`);
+    }
+    const order = plan(targets, opt?.only);
+    const selected = new Set(order);
+    const statuses = new Map<string, TaskStatus>(order.map((name) => [name, "NOT_RUN"]));
+    const errors = new Map<string, unknown>();
+    const acquire = semaphore(concurrency);
+    const started = new Map<string, Promise<boolean>>();
+    let stopped = false;
+
+    // resolves to true if the task succeeded or was skipped
+    const start = (name: string): Promise<boolean> => {
+      let p = started.get(name);
+      if (p) return p;
+      p = (async () => {
+        const task = get(name);
+        const deps = await Promise.all(task.deps.filter((dep) => selected.has(dep)).map(start));
+        if (!deps.every(Boolean) || stopped) return false;
+        const release = await acquire();
+        try {
+          if (stopped) return false;
+          let status: TaskStatus = "OK";
+          await action(name, async (asig) => {
+            try {
+              return await task.f(asig);
+            } catch (err) {
+              if (err instanceof SkipError) status = err instanceof UpToDateError ? "UP-TO-DATE" : "SKIPPED";
+              throw err;
+            }
+          }, task.config);
+          statuses.set(name, status);
+          return true;
+        } catch (err) {
+          statuses.set(
+            name,
+            err instanceof TimeoutError ? "TIMEOUT" : err instanceof InterruptedError ? "INTERRUPTED" : "ERROR",
+          );
+          errors.set(name, err);
+          if ((opt?.onFailure ?? "stop") === "stop") stopped = true;
+          return false;
+        } finally {
+          release();
+        }
+      })();
+      started.set(name, p);
+      return p;
+    };
+
+    await actionGroup(() => Promise.all(order.map(start)));
+    return { ok: errors.size === 0, statuses, errors };
+  };
+
+  const list = (): TaskInfo[] =>
+    [...tasks.values()].map((t) => ({ name: t.name, description: t.description, deps: [...t.deps] }));
+
+  const printList = () => {
+    const width = Math.max(0, ...list().map((t) => t.name.length));
+    for (const t of list()) {
+      const deps = t.deps.length ? `(depends on: ${t.deps.join(", ")})` : "";
+      console.log(`  ${t.name.padEnd(width)}  ${[t.description, deps].filter(Boolean).join(" ")}`.trimEnd());
+    }
+  };
+
+  const main = async (args: string[] = Deno.args): Promise<number> => {
+    const targets: string[] = [];
+    const opt: RunOptions = {};
+    let listOnly = false;
+    try {
+      for (let i = 0; i < args.length; i++) {
+        const arg = args[i];
+        if (arg === "--list") {
+          listOnly = true;
+        } else if (arg === "--only") {
+          opt.only = true;
+        } else if (arg === "--continue") {
+          opt.onFailure = "continue";
+        } else if (arg === "--concurrency" || arg.startsWith("--concurrency=")) {
+          const v = arg.includes("=") ? arg.substring(arg.indexOf("=") + 1) : args[++i];
+          const n = Number(v);
+          if (!Number.isInteger(n) || n < 1) throw new TaskError(`invalid concurrency: ${v}`);
+          opt.concurrency = n;
+        } else if (arg.startsWith("-")) {
+          throw new TaskError(`unknown option: ${arg}`);
+        } else {
+          targets.push(arg);
+        }
+      }
+      if (listOnly || (targets.length === 0 && !tasks.has("default"))) {
+        printList();
+        return 0;
+      }
+      const result = await run(targets.length ? targets : ["default"], opt);
+      return result.ok ? 0 : 1;
+    } catch (err) {
+      if (!(err instanceof TaskError)) throw err;
+      console.error(`error: ${err.message}`);
+      return 2;
+    }
+  };
+
+  return {
+    define(name: string, optOrF: TaskOptions | TaskFunction, f?: TaskFunction) {
+      if (tasks.has(name)) throw new TaskError(`task ${name} is already defined`);
+      const opt = typeof optOrF === "function" ? {} : optOrF;
+      let body = typeof optOrF === "function" ? optOrF : f;
+      if (!body) throw new TaskError(`task ${name} has no body`);
+      if (opt.inputs) body = incremental({ inputs: opt.inputs, outputs: opt.outputs }, body);
+      tasks.set(name, { name, deps: opt.deps ?? [], description: opt.description, config: opt.config, f: body });
+    },
+    list,
+    plan,
+    run,
+    main,
+  };
+}
@@ -0,0 +1,106 @@
+import { assert, assertEquals, assertRejects, assertThrows } from "@std/assert";
+import { defaultConfig, SkipError } from "./action.ts";
+import { TaskError, taskRegistry } from "./tasks.ts";
+
+defaultConfig.verbosity = "quiet";
+
+const delay = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+Deno.test("taskRegistry plan", () => {
+  const tasks = taskRegistry();
+  tasks.define("a", () => {});
+  tasks.define("b", { deps: ["a"] }, () => {});
+  tasks.define("c", { deps: ["a"] }, () => {});
+  tasks.define("d", { deps: ["b", "c"] }, () => {});
+  assertEquals(tasks.plan(["d"]), ["a", "b", "c", "d"]);
+  assertEquals(tasks.plan(["d"], true), ["d"]);
+  assertThrows(() => tasks.define("a", () => {}));
+  assertThrows(() => tasks.plan(["nope"]));
+
+  const cyclic = taskRegistry();
+  cyclic.define("x", { deps: ["y"] }, () => {});
+  cyclic.define("y", { deps: ["z"] }, () => {});
+  cyclic.define("z", { deps: ["x"] }, () => {});
+  assertThrows(() => cyclic.plan(["x"]), Error, "dependency cycle: x -> y -> z -> x");
+});
+
+Deno.test("taskRegistry run", async () => {
+  {
+    const runs: string[] = [];
+    let active = 0;
+    let maxActive = 0;
+    const tasks = taskRegistry();
+    const body = (name: string) => async () => {
+      active++;
+      maxActive = Math.max(maxActive, active);
+      await delay(20);
+      active--;
+      runs.push(name);
+    };
+    tasks.define("a", body("a"));
+    tasks.define("b", { deps: ["a"] }, body("b"));
+    tasks.define("c", { deps: ["a"] }, body("c"));
+    tasks.define("d", { deps: ["b", "c"] }, body("d"));
+    const result = await tasks.run(["d", "b"]);
+    assert(result.ok);
+    assertEquals(runs.length, 4);
+    assertEquals(runs[0], "a");
+    assertEquals(runs[3], "d");
+    assertEquals(maxActive, 2);
+
+    maxActive = 0;
+    await tasks.run(["d"], { concurrency: 1 });
+    assertEquals(maxActive, 1);
+  }
+  {
+    const tasks = taskRegistry();
+    tasks.define("skip", () => {
+      throw new SkipError();
+    });
+    tasks.define("fail", async () => {
+      await delay(10);
+      throw new Error("boom");
+    });
+    tasks.define("after-skip", { deps: ["skip"] }, () => {});
+    tasks.define("after-fail", { deps: ["fail"] }, () => {});
+    tasks.define("slow", () => delay(50));
+    tasks.define("after-slow", { deps: ["slow"] }, () => {});
+    const targets = ["after-skip", "after-fail", "after-slow"];
+
+    const stop = await tasks.run(targets);
+    assert(!stop.ok);
+    assertEquals(Object.fromEntries(stop.statuses), {
+      "skip": "SKIPPED",
+      "after-skip": "OK",
+      "fail": "ERROR",
+      "after-fail": "NOT_RUN",
+      "slow": "OK",
+      "after-slow": "NOT_RUN",
+    });
+    assertEquals((stop.errors.get("fail") as Error).message, "boom");
+
+    const cont = await tasks.run(targets, { onFailure: "continue" });
+    assertEquals(cont.statuses.get("after-fail"), "NOT_RUN");
+    assertEquals(cont.statuses.get("after-slow"), "OK");
+  }
+  await assertRejects(() => taskRegistry().run(["nope"]));
+  const tasks = taskRegistry();
+  tasks.define("a", () => {});
+  for (const concurrency of [0, -1, 1.5, NaN]) {
+    await assertRejects(() => tasks.run(["a"], { concurrency }), TaskError, "invalid concurrency");
+  }
+  assertEquals((await tasks.run(["a"], { concurrency: Infinity })).statuses.get("a"), "OK");
+});
+
+Deno.test("taskRegistry main", async () => {
+  const runs: string[] = [];
+  const tasks = taskRegistry();
+  tasks.define("a", () => void runs.push("a"));
+  tasks.define("default", { deps: ["a"] }, () => void runs.push("default"));
+  assertEquals(await tasks.main([]), 0);
+  assertEquals(runs, ["a", "default"]);
+  assertEquals(await tasks.main(["--only", "default"]), 0);
+  assertEquals(runs, ["a", "default", "default"]);
+  assertEquals(await tasks.main(["--concurrency", "0"]), 2);
+  assertEquals(await tasks.main(["missing"]), 2);
+});
@@ -0,0 +1,11 @@
+// A script executed by a separate deno process, to see what the library does to the process itself, e.g. what it
+// writes to its stdout. `$SRC/` in the script stands for the directory of the library. The script file is removed on
+// disposal.
+export async function denoScript(script: string): Promise<{ args: string[] } & AsyncDisposable> {
+  const path = await Deno.makeTempFile({ suffix: ".ts" });
+  await Deno.writeTextFile(path, script.replaceAll("$SRC/", new URL("./", import.meta.url).href));
+  return {
+    args: ["run", "-A", "--config", new URL("./deno.json", import.meta.url).pathname, path],
+    [Symbol.asyncDispose]: () => Deno.remove(path),
+  };
+}
@@ -0,0 +1,81 @@
+import {
+  type QuoteDialect,
+  quoteFor,
+  quoteStringFor,
+  redactSecrets,
+  type ShellResult,
+  type ShellResultBinary,
+  type ShellTemplateArgument,
+  type TagFunction,
+} from "./mod.ts";
+
+/**
+ * A layer the command goes through before it's executed, e.g. `ssh host`, `sudo sh -c` or `docker exec c bash -c`.
+ * Takes a quoted command and returns a quoted command which executes it through the layer.
+ */
+export type Transport = (cmd: string) => string;
+
+/**
+ * Produce a transport tag function for the given dialect. See `transport`.
+ *
+ * The dialect is the one of the shell parsing the transport command line, i.e. the shell executing the transport
+ * itself, not the one the transport runs the command with.
+ */
+export function transportFor(
+  dialect: QuoteDialect,
+): (pieces: TemplateStringsArray, ...args: ShellTemplateArgument[]) => Transport {
+  const q = quoteFor(dialect);
+  return (pieces, ...args) => {
+    const prefix = q(pieces, ...args);
+    return (cmd) => `${prefix} ${quoteStringFor(dialect, cmd)}`;
+  };
+}
+
+/**
+ * Define a transport layer. The template is the command line of the layer, the command it executes is quoted and
+ * appended to it as the last argument. E.g.
+ * ```
+ * const root = transport`sudo sh -c`;
+ * const remote = transport`ssh ${host}`;
+ * const container = transport`docker exec ${name} bash -c`;
+ * ```
+ *
+ * Note that `ssh` concatenates its arguments and passes the result to the remote login shell, which is why a single
+ * quoted argument is exactly what it needs.
+ */
+export const transport: (
+  pieces: TemplateStringsArray,
+  ...args: ShellTemplateArgument[]
+) => Transport = transportFor("posix");
+
+/**
+ * Apply transport layers to a command. The first layer is the outermost one, i.e. the one executed first.
+ */
+export function wrapCommand(cmd: string, ...layers: Transport[]): string {
+  return layers.reduceRight((c, layer) => layer(c), cmd);
+}
+
+/**
+ * Produce a tag function executing commands through the given transport layers, the first layer is the outermost
+ * one. Each layer quotes the command once more, so it arrives at the innermost shell intact. E.g.
+ * ```
+ * const remoteRoot = via(sh, transport`ssh ${host}`, transport`sudo sh -c`);
+ * await remoteRoot`cat ${"/etc/my config"}`;
+ * ```
+ * quotes `cat '/etc/my config'` for `sudo sh -c` and the result of that for `ssh`. With a single layer it's simply:
+ * ```
+ * await via(sh, transport`sudo sh -c`)`cat ${"/etc/my config"}`;
+ * // sudo sh -c 'cat '"'"'/etc/my config'"'"
+ * ```
+ *
+ * `cmd` of the result is the original command, as it was written, which makes printed results readable.
+ */
+export function via<T extends ShellResult | ShellResultBinary>(
+  f: TagFunction<T>,
+  ...layers: Transport[]
+): TagFunction<T> {
+  return f.map({
+    pre: (cmd) => wrapCommand(cmd, ...layers),
+    post: (result, cmd) => ({ ...result, cmd: redactSecrets(cmd) }),
+  });
+}
@@ -0,0 +1,29 @@
+import { assert, assertEquals } from "@std/assert";
+import { quote, sh } from "./mod.ts";
+import { transport, transportFor, via, wrapCommand } from "./transport.ts";
+
+Deno.test("wrapCommand", () => {
+  assertEquals(wrapCommand("echo hi"), "echo hi");
+  assertEquals(wrapCommand("echo hi", transport`ssh ${"my host"}`), `ssh 'my host' 'echo hi'`);
+  assertEquals(
+    wrapCommand("echo 'x'", transport`sudo sh -c`, transport`bash -c`),
+    `sudo sh -c 'bash -c '"'"'echo '"'"'"'"'"'"'"'"'x'"'"'"'"'"'"'`,
+  );
+  assertEquals(wrapCommand("echo it's", transportFor("fish")`fish -c`), `fish -c 'echo it\\'s'`);
+});
+
+Deno.test("via", async () => {
+  const tricky = `it's "$HOME" \\ $(echo no) ;|&`;
+  for (const depth of [1, 2, 5]) {
+    const layers = Array.from({ length: depth }, (_, i) => i % 2 ? transport`sh -c` : transport`bash -c`);
+    const result = await via(sh, ...layers)`printf %s ${tricky}`;
+    assertEquals(result.stdout, tricky);
+    assertEquals(result.cmd, quote`printf %s ${tricky}`);
+  }
+  {
+    // every layer runs in its own shell process
+    const result = await via(sh, transport`bash -c`, transport`sh -c`)`echo $$ $PPID`;
+    const [pid, ppid] = result.stdout.split(" ");
+    assert(pid !== ppid);
+  }
+});